@@ -14,17 +14,21 @@ import ActiveGamePage from "@/pages/active-game";
 import GhostNetworkPage from "@/pages/ghost-network";
 import GhostGamesPage from "@/pages/ghost-games";
 import GhostTestPage from "@/pages/ghost-test";
+import AuthPage from "@/pages/auth-page";
 import NotFound from "@/pages/not-found";
 import { ghostClient } from "@/lib/ghost-client";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={GhostGamesPage} />
-      <Route path="/active" component={ActiveGamePage} />
-      <Route path="/devices" component={DevicesPage} />
+      <ProtectedRoute path="/" component={GhostGamesPage} />
+      <ProtectedRoute path="/active" component={ActiveGamePage} />
+      <ProtectedRoute path="/devices" component={DevicesPage} />
       <Route path="/ghost" component={GhostNetworkPage} />
-      <Route path="/settings" component={SettingsPage} />
+      <ProtectedRoute path="/settings" component={SettingsPage} />
+      <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -48,15 +52,17 @@ function App() {
 
   return (
     <QueryClientProvider client={queryClient}>
-      <ThemeProvider defaultTheme="dark">
-        <TooltipProvider>
-          <div className="min-h-screen bg-background">
-            <Router />
-            <BottomNav />
-          </div>
-          <Toaster />
-        </TooltipProvider>
-      </ThemeProvider>
+      <AuthProvider>
+        <ThemeProvider defaultTheme="dark">
+          <TooltipProvider>
+            <div className="min-h-screen bg-background">
+              <Router />
+              <BottomNav />
+            </div>
+            <Toaster />
+          </TooltipProvider>
+        </ThemeProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
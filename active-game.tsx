@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Play, Pause, Square, Maximize2, Monitor, Cpu, Wifi, Zap, Ghost } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,6 +7,7 @@ import { Progress } from "@/components/ui/progress";
 import { StatusBar } from "@/components/status-bar";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { Link } from "wouter";
+import { queryClient, apiRequest } from "@/lib/queryClient";
 import type { NetworkStats, GameSession, Device } from "@shared/schema";
 
 export default function ActiveGamePage() {
@@ -25,6 +26,15 @@ export default function ActiveGamePage() {
     refetchInterval: 1000,
   });
 
+  const endSessionMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("DELETE", "/api/session/active");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/session/active"] });
+    },
+  });
+
   const connectedDevices = devices.filter((d) => d.status === "connected");
 
   const defaultStats: NetworkStats = {
@@ -106,7 +116,14 @@ export default function ActiveGamePage() {
               <Button size="icon" variant="secondary" className="bg-black/50 backdrop-blur-sm border-0">
                 <Pause className="w-5 h-5" />
               </Button>
-              <Button size="icon" variant="secondary" className="bg-black/50 backdrop-blur-sm border-0">
+              <Button
+                size="icon"
+                variant="secondary"
+                className="bg-black/50 backdrop-blur-sm border-0"
+                onClick={() => endSessionMutation.mutate()}
+                disabled={endSessionMutation.isPending}
+                data-testid="button-end-session"
+              >
                 <Square className="w-5 h-5" />
               </Button>
             </div>
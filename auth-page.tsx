@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { Ghost, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const isPending = loginMutation.isPending || registerMutation.isPending;
+  const canSubmit = username.trim().length > 0 && password.length > 0 && !isPending;
+
+  const handleSubmit = (mode: "login" | "register") => (e: React.FormEvent) => {
+    e.preventDefault();
+    const credentials = { username: username.trim(), password };
+    if (mode === "login") {
+      loginMutation.mutate(credentials);
+    } else {
+      registerMutation.mutate(credentials);
+    }
+  };
+
+  const renderForm = (mode: "login" | "register") => (
+    <form onSubmit={handleSubmit(mode)} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-username`}>Usuário</Label>
+        <Input
+          id={`${mode}-username`}
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          data-testid={`input-${mode}-username`}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-password`}>Senha</Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          data-testid={`input-${mode}-password`}
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={!canSubmit} data-testid={`button-${mode}`}>
+        {isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {mode === "login" ? "Entrar" : "Criar conta"}
+      </Button>
+    </form>
+  );
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4 pb-20">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <Ghost className="w-10 h-10 mx-auto text-primary mb-2" />
+          <CardTitle className="font-display text-2xl" data-testid="text-auth-title">
+            Sistema Fantasma
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Entre para acessar suas ROMs e configurações
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login" className="w-full">
+            <TabsList className="w-full grid grid-cols-2 mb-6">
+              <TabsTrigger value="login" data-testid="tab-login">Entrar</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Cadastrar</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">{renderForm("login")}</TabsContent>
+            <TabsContent value="register">{renderForm("register")}</TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import type { BluetoothDevice, InsertBluetoothDevice } from "@shared/schema";
+
+// How long a device reported by the Android shell is considered in range
+const REPORT_TTL_MS = 30000;
+// How long a pair request waits for the shell to report the device as connected
+const PAIR_TIMEOUT_MS = 15000;
+const PAIR_POLL_MS = 250;
+const UNSUPPORTED_MESSAGE = "Bluetooth is not available on this server (set BLUETOOTH_PROVIDER to capacitor or fake)";
+
+export interface BluetoothProvider {
+  readonly name: string;
+  scan(): Promise<InsertBluetoothDevice[]>;
+  pair(device: BluetoothDevice): Promise<boolean>;
+}
+
+// Thrown by providers that cannot reach any Bluetooth radio
+export class BluetoothUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BluetoothUnavailableError";
+  }
+}
+
+// Default: the server has no radio, and no native shell is set up to lend one
+export class UnsupportedBluetoothProvider implements BluetoothProvider {
+  readonly name = "unsupported";
+
+  async scan(): Promise<InsertBluetoothDevice[]> {
+    throw new BluetoothUnavailableError(UNSUPPORTED_MESSAGE);
+  }
+
+  async pair(): Promise<boolean> {
+    throw new BluetoothUnavailableError(UNSUPPORTED_MESSAGE);
+  }
+}
+
+// Fixed device list, for tests and for development on machines without a radio
+export class FakeBluetoothProvider implements BluetoothProvider {
+  readonly name = "fake";
+  private paired: Set<string> = new Set();
+
+  constructor(
+    private devices: InsertBluetoothDevice[] = [
+      { name: "Controle Fantasma", deviceType: "gamepad", connected: false, batteryLevel: 80 },
+      { name: "Teclado Fantasma", deviceType: "keyboard", connected: false, batteryLevel: null },
+    ],
+    private canPair: boolean = true,
+  ) {}
+
+  async scan(): Promise<InsertBluetoothDevice[]> {
+    return this.devices.map((device) => ({
+      ...device,
+      connected: this.paired.has(device.name),
+    }));
+  }
+
+  async pair(device: BluetoothDevice): Promise<boolean> {
+    const known = this.devices.some((d) => d.name === device.name);
+    if (!known || !this.canPair) return false;
+    this.paired.add(device.name);
+    return true;
+  }
+}
+
+// The server has no radio of its own on Android: the Capacitor shell scans
+// and pairs natively, reports what it sees to /api/bluetooth/bridge/report and
+// picks up pair requests from /api/bluetooth/bridge/requests. Opt-in with
+// BLUETOOTH_PROVIDER=capacitor, only for shells that implement that side.
+export class BridgedBluetoothProvider implements BluetoothProvider {
+  readonly name = "capacitor";
+  private reported: Map<string, { device: InsertBluetoothDevice; reportedAt: number }> = new Map();
+  private pendingPairs: Set<string> = new Set();
+
+  report(devices: InsertBluetoothDevice[]) {
+    const now = Date.now();
+    for (const device of devices) {
+      this.reported.set(device.name, { device, reportedAt: now });
+      if (device.connected) {
+        this.pendingPairs.delete(device.name);
+      }
+    }
+  }
+
+  getPairRequests(): string[] {
+    return Array.from(this.pendingPairs);
+  }
+
+  async scan(): Promise<InsertBluetoothDevice[]> {
+    const cutoff = Date.now() - REPORT_TTL_MS;
+    return Array.from(this.reported.values())
+      .filter((entry) => entry.reportedAt >= cutoff)
+      .map((entry) => entry.device);
+  }
+
+  async pair(device: BluetoothDevice): Promise<boolean> {
+    if (this.isConnected(device.name)) return true;
+
+    this.pendingPairs.add(device.name);
+    const deadline = Date.now() + PAIR_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, PAIR_POLL_MS));
+      if (this.isConnected(device.name)) return true;
+    }
+
+    this.pendingPairs.delete(device.name);
+    return false;
+  }
+
+  private isConnected(name: string): boolean {
+    return this.reported.get(name)?.device.connected === true;
+  }
+}
+
+function createBluetoothProvider(): BluetoothProvider {
+  switch (process.env.BLUETOOTH_PROVIDER) {
+    case "fake":
+      return new FakeBluetoothProvider();
+    case "capacitor":
+      return new BridgedBluetoothProvider();
+    default:
+      return new UnsupportedBluetoothProvider();
+  }
+}
+
+let bluetoothProvider: BluetoothProvider = createBluetoothProvider();
+
+export function getBluetoothProvider(): BluetoothProvider {
+  return bluetoothProvider;
+}
+
+export function setBluetoothProvider(provider: BluetoothProvider) {
+  bluetoothProvider = provider;
+}
@@ -0,0 +1,483 @@
+import type { GhostBundle, GhostGame, BundleSwarmMessage, PeerControlMessage, PeerMessage } from "@shared/ghost-types";
+import { ghostClient, type GhostClient } from "./ghost-client";
+import { ghostCompiler } from "./ghost-compiler";
+import { bundleTransfer, type BundleTransfer } from "./bundle-transfer";
+
+// Swarm download of a GhostGame: every peer advertises a "have" bitmap per
+// game (bit i set = it holds game.bundles[i]) over the data channels, and the
+// download manager pulls the missing bundles from several peers at once,
+// rarest first, through BundleTransfer.
+
+const CONTROL_KIND = "bundle-swarm" as const;
+// Concurrent bundle requests per peer
+const MAX_IN_FLIGHT_PER_PEER = 2;
+// Give up on a request that has not completed after this long and try another peer
+const REQUEST_TIMEOUT_MS = 30000;
+const MANIFEST_TIMEOUT_MS = 10000;
+// Pause before retrying a bundle that just failed, so a peer that keeps
+// refusing does not turn the scheduler into a busy loop
+const RETRY_DELAY_MS = 2000;
+// A download fails when no peer can serve its missing bundles for this long...
+const STALLED_TIMEOUT_MS = 60000;
+// ...or when one bundle has failed this many times
+const MAX_BUNDLE_FAILURES = 5;
+
+type BundleMeta = Omit<GhostBundle, "data">;
+
+export interface GameManifest {
+  game: GhostGame;
+  bundles: BundleMeta[]; // in game.bundles order
+}
+
+export interface SwarmProgress {
+  gameId: string;
+  gameName: string;
+  have: number;
+  total: number;
+  inFlight: number;
+  peers: number; // peers holding at least one bundle we still need
+  status: "downloading" | "stalled" | "complete" | "failed";
+}
+
+// A game some peer in the room can serve and this peer does not fully have
+export interface AvailableGame {
+  gameId: string;
+  gameName: string;
+  peers: number;
+}
+
+type SwarmHandler = (event: any) => void;
+
+interface LocalGame {
+  manifest: GameManifest;
+  have: Uint8Array;
+}
+
+interface Download {
+  manifest: GameManifest;
+  inFlight: Map<number, string>; // bundle index -> peer id
+  failedPeers: Map<number, Set<string>>; // peers that already failed a bundle
+  failures: Map<number, number>; // failed requests per bundle
+  stalledTimer: ReturnType<typeof setTimeout> | null;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  cancelled: boolean;
+}
+
+function createBitmap(size: number): Uint8Array {
+  return new Uint8Array(Math.ceil(size / 8));
+}
+
+function hasBit(bitmap: Uint8Array, index: number): boolean {
+  return (bitmap[index >> 3] & (1 << (index & 7))) !== 0;
+}
+
+function setBit(bitmap: Uint8Array, index: number) {
+  bitmap[index >> 3] |= 1 << (index & 7);
+}
+
+function countBits(bitmap: Uint8Array, size: number): number {
+  let count = 0;
+  for (let i = 0; i < size; i++) {
+    if (hasBit(bitmap, i)) count++;
+  }
+  return count;
+}
+
+function encodeBitmap(bitmap: Uint8Array): string {
+  return btoa(String.fromCharCode(...Array.from(bitmap)));
+}
+
+function decodeBitmap(encoded: string): Uint8Array {
+  return Uint8Array.from(atob(encoded), (c) => c.charCodeAt(0));
+}
+
+export class BundleSwarm {
+  private local: Map<string, LocalGame> = new Map(); // by game id
+  private remote: Map<string, Map<string, Uint8Array>> = new Map(); // game id -> peer id -> bitmap
+  private remoteNames: Map<string, string> = new Map(); // game id -> name
+  private downloads: Map<string, Download> = new Map();
+  private manifestWaiters: Map<string, ((manifest: GameManifest) => void)[]> = new Map();
+  private handlers: Map<string, SwarmHandler[]> = new Map();
+  private localLoaded: Promise<void> | null = null;
+
+  constructor(private client: GhostClient = ghostClient, private transfer: BundleTransfer = bundleTransfer) {
+    // GhostClient validated the message against bundleSwarmMessageSchema
+    this.client.on("data", ({ from, data }: { from: string; data: PeerMessage | PeerControlMessage }) => {
+      if ("kind" in data && data.kind === CONTROL_KIND) {
+        this.handleMessage(from, data);
+      }
+    });
+    this.client.on("channel-open", ({ peerId }: { peerId: string }) => {
+      this.sendHaves(peerId).catch((error) => console.error("Failed to advertise bundles:", error));
+    });
+    this.client.on("channel-close", ({ peerId }: { peerId: string }) => {
+      Array.from(this.remote.values()).forEach((peers) => peers.delete(peerId));
+      this.emit("available", this.getAvailableGames());
+    });
+  }
+
+  getAvailableGames(): AvailableGame[] {
+    return Array.from(this.remote.entries())
+      .filter(([gameId, peers]) => {
+        if (peers.size === 0) return false;
+        const local = this.local.get(gameId);
+        return !local || countBits(local.have, local.manifest.bundles.length) < local.manifest.bundles.length;
+      })
+      .map(([gameId, peers]) => ({
+        gameId,
+        gameName: this.remoteNames.get(gameId) ?? gameId,
+        peers: peers.size,
+      }));
+  }
+
+  // Downloads every bundle of a game the local peer does not have yet.
+  // Resolves once all of them are stored and the game is saved locally.
+  async download(gameId: string): Promise<void> {
+    const existing = this.downloads.get(gameId);
+    if (existing) {
+      throw new Error(`Game ${gameId} is already downloading`);
+    }
+
+    await this.loadLocalGames();
+    const manifest = this.local.get(gameId)?.manifest ?? (await this.fetchManifest(gameId));
+    const local = this.ensureLocal(manifest);
+
+    if (countBits(local.have, manifest.bundles.length) === manifest.bundles.length) {
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      this.downloads.set(gameId, {
+        manifest,
+        inFlight: new Map(),
+        failedPeers: new Map(),
+        failures: new Map(),
+        stalledTimer: null,
+        resolve,
+        reject,
+        cancelled: false,
+      });
+      this.schedule(gameId);
+    });
+  }
+
+  cancel(gameId: string) {
+    const download = this.downloads.get(gameId);
+    if (download) {
+      this.fail(download, "Download cancelled");
+    }
+  }
+
+  getProgress(gameId: string): SwarmProgress | null {
+    const download = this.downloads.get(gameId);
+    return download ? this.progressOf(download, "downloading") : null;
+  }
+
+  // Tells the room which bundles of a game this peer can serve, e.g. after
+  // compiling it locally
+  async announce(gameId: string) {
+    this.local.delete(gameId);
+    this.localLoaded = null;
+    await this.loadLocalGames();
+
+    const local = this.local.get(gameId);
+    if (local) {
+      this.client.broadcast(this.haveMessage(gameId, local));
+    }
+  }
+
+  private handleMessage(from: string, message: BundleSwarmMessage) {
+    switch (message.action) {
+      case "have": {
+        if (!this.remote.has(message.gameId)) {
+          this.remote.set(message.gameId, new Map());
+        }
+        this.remote.get(message.gameId)!.set(from, decodeBitmap(message.bitmap));
+        this.remoteNames.set(message.gameId, message.gameName);
+        if (this.downloads.has(message.gameId)) {
+          this.schedule(message.gameId);
+        }
+        this.emit("available", this.getAvailableGames());
+        break;
+      }
+
+      case "manifest-request": {
+        const local = this.local.get(message.gameId);
+        if (local) {
+          this.client.sendToPeer(from, { kind: CONTROL_KIND, action: "manifest", manifest: local.manifest });
+        }
+        break;
+      }
+
+      case "manifest": {
+        const waiters = this.manifestWaiters.get(message.manifest.game.id);
+        if (waiters) {
+          this.manifestWaiters.delete(message.manifest.game.id);
+          waiters.forEach((resolve) => resolve(message.manifest));
+        }
+        break;
+      }
+    }
+  }
+
+  private schedule(gameId: string) {
+    const download = this.downloads.get(gameId);
+    const local = this.local.get(gameId);
+    if (!download || !local || download.cancelled) return;
+
+    const { bundles } = download.manifest;
+    const holders = this.remote.get(gameId) ?? new Map<string, Uint8Array>();
+    const peersInFlight = new Map<string, number>();
+    Array.from(download.inFlight.values()).forEach((peerId) => {
+      peersInFlight.set(peerId, (peersInFlight.get(peerId) ?? 0) + 1);
+    });
+
+    // Rarest first: bundles few peers hold are the ones most at risk of
+    // disappearing from the room
+    const missing = bundles
+      .map((_, index) => index)
+      .filter((index) => !hasBit(local.have, index) && !download.inFlight.has(index))
+      .map((index) => ({
+        index,
+        peers: Array.from(holders.entries())
+          .filter(([peerId, bitmap]) => hasBit(bitmap, index) && this.client.getDataChannel(peerId))
+          .map(([peerId]) => peerId),
+      }))
+      .filter((entry) => entry.peers.length > 0)
+      .sort((a, b) => a.peers.length - b.peers.length);
+
+    for (const { index, peers } of missing) {
+      const failed = download.failedPeers.get(index);
+      // Prefer peers that have not failed this bundle yet, then the least busy
+      const candidates = peers
+        .filter((peerId) => (peersInFlight.get(peerId) ?? 0) < MAX_IN_FLIGHT_PER_PEER)
+        .sort((a, b) =>
+          Number(failed?.has(a) ?? false) - Number(failed?.has(b) ?? false) ||
+          (peersInFlight.get(a) ?? 0) - (peersInFlight.get(b) ?? 0),
+        );
+      const peerId = candidates[0];
+      if (!peerId) continue;
+
+      download.inFlight.set(index, peerId);
+      peersInFlight.set(peerId, (peersInFlight.get(peerId) ?? 0) + 1);
+      this.fetch(download, index, peerId);
+    }
+
+    this.updateStatus(download);
+  }
+
+  private updateStatus(download: Download) {
+    if (download.inFlight.size > 0) {
+      if (download.stalledTimer) {
+        clearTimeout(download.stalledTimer);
+        download.stalledTimer = null;
+      }
+      this.emitProgress(download, "downloading");
+      return;
+    }
+
+    if (!download.stalledTimer) {
+      download.stalledTimer = setTimeout(() => {
+        this.fail(download, `No peer can serve the rest of game ${download.manifest.game.id}`);
+      }, STALLED_TIMEOUT_MS);
+    }
+    this.emitProgress(download, "stalled");
+  }
+
+  private fail(download: Download, reason: string) {
+    if (download.cancelled) return;
+
+    download.cancelled = true;
+    if (download.stalledTimer) clearTimeout(download.stalledTimer);
+    this.downloads.delete(download.manifest.game.id);
+    Array.from(download.inFlight.keys()).forEach((index) => {
+      this.transfer.cancel(download.manifest.bundles[index].id, reason);
+    });
+    this.emitProgress(download, "failed");
+    download.reject(new Error(reason));
+  }
+
+  private fetch(download: Download, index: number, peerId: string) {
+    const bundle = download.manifest.bundles[index];
+    // Cancelling rejects fetchBundle and frees the bundle for the next attempt
+    const timer = setTimeout(() => {
+      this.transfer.cancel(bundle.id, `Request for ${bundle.id} timed out`);
+    }, REQUEST_TIMEOUT_MS);
+
+    let failed = false;
+    this.transfer.fetchBundle(peerId, bundle)
+      .then(() => this.onBundleReceived(download, index))
+      .catch((error) => {
+        failed = true;
+        if (download.cancelled) return;
+        console.warn(`Bundle ${bundle.id} from ${peerId} failed:`, error);
+        if (!download.failedPeers.has(index)) {
+          download.failedPeers.set(index, new Set());
+        }
+        download.failedPeers.get(index)!.add(peerId);
+        download.failures.set(index, (download.failures.get(index) ?? 0) + 1);
+      })
+      .finally(() => {
+        clearTimeout(timer);
+        download.inFlight.delete(index);
+        if (download.cancelled) return;
+        if ((download.failures.get(index) ?? 0) >= MAX_BUNDLE_FAILURES) {
+          this.fail(download, `Bundle ${bundle.id} failed ${MAX_BUNDLE_FAILURES} times`);
+        } else if (failed) {
+          this.updateStatus(download);
+          setTimeout(() => this.schedule(download.manifest.game.id), RETRY_DELAY_MS);
+        } else {
+          this.schedule(download.manifest.game.id);
+        }
+      });
+  }
+
+  private async onBundleReceived(download: Download, index: number) {
+    const { game, bundles } = download.manifest;
+    const local = this.local.get(game.id);
+    if (!local || download.cancelled) return;
+
+    setBit(local.have, index);
+    // Other downloaders can fetch this bundle from us right away
+    this.client.broadcast(this.haveMessage(game.id, local));
+
+    if (countBits(local.have, bundles.length) === bundles.length) {
+      await ghostCompiler.storeGame(game);
+      if (download.stalledTimer) clearTimeout(download.stalledTimer);
+      this.downloads.delete(game.id);
+      this.emitProgress(download, "complete");
+      this.emit("available", this.getAvailableGames());
+      download.resolve();
+    }
+  }
+
+  private fetchManifest(gameId: string): Promise<GameManifest> {
+    const holders = Array.from(this.remote.get(gameId)?.keys() ?? []);
+    if (holders.length === 0) {
+      return Promise.reject(new Error(`No peer in the room has game ${gameId}`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.manifestWaiters.delete(gameId);
+        reject(new Error(`No manifest received for game ${gameId}`));
+      }, MANIFEST_TIMEOUT_MS);
+
+      const waiters = this.manifestWaiters.get(gameId) ?? [];
+      waiters.push((manifest) => {
+        clearTimeout(timer);
+        resolve(manifest);
+      });
+      this.manifestWaiters.set(gameId, waiters);
+
+      holders.forEach((peerId) => {
+        this.client.sendToPeer(peerId, { kind: CONTROL_KIND, action: "manifest-request", gameId });
+      });
+    });
+  }
+
+  private ensureLocal(manifest: GameManifest): LocalGame {
+    let local = this.local.get(manifest.game.id);
+    if (!local) {
+      local = { manifest, have: createBitmap(manifest.bundles.length) };
+      this.local.set(manifest.game.id, local);
+    }
+    return local;
+  }
+
+  // Builds the have bitmaps of the games compiled or downloaded earlier
+  private loadLocalGames(): Promise<void> {
+    if (!this.localLoaded) {
+      this.localLoaded = (async () => {
+        const games = await ghostCompiler.getAllGames();
+        for (const game of games) {
+          if (this.local.has(game.id)) continue;
+
+          const stored = await ghostCompiler.getAllBundlesForGame(game.id);
+          const byId = new Map(stored.map((bundle) => [bundle.id, bundle]));
+          const bundles = game.bundles
+            .map((id) => byId.get(id))
+            .filter((bundle): bundle is GhostBundle => bundle !== undefined);
+          if (bundles.length !== game.bundles.length) continue;
+
+          const have = createBitmap(bundles.length);
+          bundles.forEach((bundle, index) => {
+            if (bundle.data) setBit(have, index);
+          });
+          this.local.set(game.id, {
+            manifest: { game, bundles: bundles.map(({ data: _data, ...meta }) => meta) },
+            have,
+          });
+        }
+      })();
+    }
+    return this.localLoaded;
+  }
+
+  private async sendHaves(peerId: string) {
+    await this.loadLocalGames();
+    Array.from(this.local.entries()).forEach(([gameId, local]) => {
+      this.client.sendToPeer(peerId, this.haveMessage(gameId, local));
+    });
+  }
+
+  private haveMessage(gameId: string, local: LocalGame): BundleSwarmMessage {
+    return {
+      kind: CONTROL_KIND,
+      action: "have",
+      gameId,
+      gameName: local.manifest.game.originalName,
+      bitmap: encodeBitmap(local.have),
+    };
+  }
+
+  private progressOf(download: Download, status: SwarmProgress["status"]): SwarmProgress {
+    const { game, bundles } = download.manifest;
+    const local = this.local.get(game.id);
+    const have = local ? countBits(local.have, bundles.length) : 0;
+    const holders = Array.from(this.remote.get(game.id)?.values() ?? []);
+
+    return {
+      gameId: game.id,
+      gameName: game.originalName,
+      have,
+      total: bundles.length,
+      inFlight: download.inFlight.size,
+      peers: holders.filter((bitmap) =>
+        bundles.some((_, index) => hasBit(bitmap, index) && !(local && hasBit(local.have, index))),
+      ).length,
+      status,
+    };
+  }
+
+  private emitProgress(download: Download, status: SwarmProgress["status"]) {
+    this.emit("progress", this.progressOf(download, status));
+  }
+
+  on(event: string, handler: SwarmHandler) {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, []);
+    }
+    this.handlers.get(event)!.push(handler);
+  }
+
+  off(event: string, handler: SwarmHandler) {
+    const handlers = this.handlers.get(event);
+    if (handlers) {
+      const index = handlers.indexOf(handler);
+      if (index !== -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  private emit(event: string, data: any) {
+    const handlers = this.handlers.get(event);
+    if (handlers) {
+      handlers.forEach((handler) => handler(data));
+    }
+  }
+}
+
+export const bundleSwarm = new BundleSwarm();
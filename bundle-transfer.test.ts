@@ -0,0 +1,154 @@
+import { describe, it, before, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import type { CapabilityBenchmark, GhostBundle } from "@shared/ghost-types";
+import { InMemorySignalingHub } from "./signaling-transport";
+import { FakeNetwork } from "./fake-webrtc";
+import type { GhostClient as GhostClientType } from "./ghost-client";
+import type { BundleStore, BundleTransfer as BundleTransferType } from "./bundle-transfer";
+
+// BundleTransfer between two GhostClients connected over the fakes of
+// fake-webrtc.ts, each with an in-memory BundleStore.
+
+const BENCHMARK: CapabilityBenchmark = {
+  wasmIntMops: 500,
+  wasmFloatMflops: 400,
+  fillRateMpixels: 0,
+  storageWriteMBps: 20,
+  downloadMbps: 50,
+  uploadMbps: 20,
+  measuredAt: 0,
+};
+const STALL_TIMEOUT_MS = 15000;
+const MAX_FRAME_SIZE = 16 * 1024;
+
+async function until(condition: () => boolean, timeoutMs: number = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+class MemoryStore implements BundleStore {
+  readonly stored: GhostBundle[] = [];
+
+  constructor(private bundles: GhostBundle[] = []) {}
+
+  async getBundle(bundleId: string) {
+    return this.bundles.find((bundle) => bundle.id === bundleId) ?? null;
+  }
+
+  async storeBundles(bundles: GhostBundle[]) {
+    this.stored.push(...bundles);
+  }
+}
+
+function makeBundle(size: number): GhostBundle {
+  const data = Uint8Array.from({ length: size }, (_, i) => i % 251);
+  return {
+    id: "zelda-wasm-0",
+    gameId: "zelda",
+    type: "wasm",
+    hash: createHash("sha256").update(data).digest("hex"),
+    size,
+    data: data.buffer,
+    dependencies: [],
+  };
+}
+
+describe("BundleTransfer", () => {
+  let GhostClient: typeof GhostClientType;
+  let BundleTransfer: typeof BundleTransferType;
+  let clients: GhostClientType[] = [];
+
+  before(async () => {
+    // See ghost-client.test.ts
+    Object.assign(globalThis, {
+      document: { createElement: () => ({ getContext: () => null }) },
+      navigator: {},
+    });
+    ({ GhostClient } = await import("./ghost-client"));
+    ({ BundleTransfer } = await import("./bundle-transfer"));
+  });
+
+  afterEach(() => {
+    clients.forEach((client) => client.disconnect());
+    clients = [];
+  });
+
+  async function connectPair(): Promise<[GhostClientType, GhostClientType]> {
+    const hub = new InMemorySignalingHub();
+    const network = new FakeNetwork();
+    const pair = [0, 1].map(() =>
+      new GhostClient({
+        transport: hub.createTransport(),
+        peerConnectionFactory: network.createPeerConnection,
+        loadIceConfig: async () => ({ iceServers: [], lanOnly: false }),
+        benchmark: async () => BENCHMARK,
+      }),
+    ) as [GhostClientType, GhostClientType];
+    clients.push(...pair);
+    for (const client of pair) {
+      await client.connect();
+    }
+    await until(() => pair.every((client) => client.getDataChannelCount() === 1));
+    return pair;
+  }
+
+  it("fetches a bundle in frames of at most 16KB and stores it", async () => {
+    const [receiver, sender] = await connectPair();
+    const bundle = makeBundle(40000);
+    new BundleTransfer(sender, new MemoryStore([bundle]));
+    const store = new MemoryStore();
+    const frameSizes: number[] = [];
+    receiver.on("binary-data", ({ data }) => frameSizes.push(data.byteLength));
+
+    const { data, ...meta } = bundle;
+    const fetched = await new BundleTransfer(receiver, store).fetchBundle(sender.getPeerId(), meta);
+
+    assert.deepEqual(new Uint8Array(fetched.data!), new Uint8Array(data!));
+    assert.deepEqual(store.stored.map(({ id }) => id), [bundle.id]);
+    assert.deepEqual(frameSizes.slice(0, -1), [MAX_FRAME_SIZE, MAX_FRAME_SIZE]);
+    assert.ok(frameSizes[2] < MAX_FRAME_SIZE);
+  });
+
+  it("tells the sender to stop when a transfer stalls", async (t) => {
+    const [receiver, sender] = await connectPair();
+    // A sender that never answers
+    const received: any[] = [];
+    sender.on("data", ({ data }) => received.push(data));
+    const { data: _data, ...meta } = makeBundle(40000);
+
+    t.mock.timers.enable({ apis: ["setTimeout"] });
+    const fetched = new BundleTransfer(receiver, new MemoryStore()).fetchBundle(sender.getPeerId(), meta);
+    t.mock.timers.tick(STALL_TIMEOUT_MS);
+    t.mock.timers.reset();
+
+    await assert.rejects(fetched, /stalled/);
+    await until(() => received.length === 2);
+    assert.deepEqual(received.map(({ action }) => action), ["request", "cancel"]);
+  });
+
+  it("neither stores nor resolves a bundle cancelled while it is being verified", async () => {
+    const [receiver, sender] = await connectPair();
+    const bundle = makeBundle(40000);
+    new BundleTransfer(sender, new MemoryStore([bundle]));
+    const store = new MemoryStore();
+    const transfer = new BundleTransfer(receiver, store);
+    const completed: string[] = [];
+    transfer.on("complete", ({ bundleId }) => completed.push(bundleId));
+    // The last chunk is in: complete() is about to hash it
+    transfer.on("progress", ({ received, total }) => {
+      if (received === total) transfer.cancel(bundle.id);
+    });
+
+    const { data: _data, ...meta } = bundle;
+    await assert.rejects(transfer.fetchBundle(sender.getPeerId(), meta), /Transfer cancelled/);
+    // Long enough for the hash and the store to have happened
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    assert.deepEqual(store.stored, []);
+    assert.deepEqual(completed, []);
+  });
+});
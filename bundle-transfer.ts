@@ -0,0 +1,389 @@
+import type { GhostBundle, BundleTransferMessage, PeerControlMessage, PeerMessage } from "@shared/ghost-types";
+import { ghostClient, type GhostClient } from "./ghost-client";
+import { ghostCompiler } from "./ghost-compiler";
+
+// Binary bundle transfer over the "ghost-data" channel.
+//
+// The receiver asks for a bundle (optionally from an offset, to resume) with a
+// JSON control message; the sender answers with binary chunk frames:
+//
+//   0      u8   FRAME_MAGIC
+//   1      u8   FRAME_CHUNK
+//   2..3   u16  bundle id length (UTF-8 bytes)
+//   4..7   u32  offset of the payload in the bundle
+//   8..11  u32  total bundle size
+//   12..43      SHA-256 of the whole bundle
+//   44..        bundle id, then the payload
+
+const FRAME_MAGIC = 0x47; // "G"
+const FRAME_CHUNK = 0x01;
+const HEADER_SIZE = 44;
+const HASH_SIZE = 32;
+
+// 16KB is the largest message every browser's SCTP stack accepts unfragmented.
+// That is the whole frame: the payload gets what the header and id leave.
+const MAX_FRAME_SIZE = 16 * 1024;
+// Stop queueing above the high mark, resume once the channel drains below the low one
+const BUFFER_HIGH_WATER = 1024 * 1024;
+const BUFFER_LOW_WATER = 256 * 1024;
+// A transfer that makes no progress for this long is given up (and can be resumed)
+const STALL_TIMEOUT_MS = 15000;
+
+const CONTROL_KIND = "bundle-transfer" as const;
+
+type TransferHandler = (event: any) => void;
+
+// Where bundles are served from and stored to; the compiler's IndexedDB by default
+export interface BundleStore {
+  getBundle(bundleId: string): Promise<GhostBundle | null>;
+  storeBundles(bundles: GhostBundle[]): Promise<void>;
+}
+
+export interface TransferProgress {
+  peerId: string;
+  bundleId: string;
+  received: number;
+  total: number;
+}
+
+interface IncomingTransfer {
+  peerId: string;
+  bundle: Omit<GhostBundle, "data">;
+  resolve: (bundle: GhostBundle) => void;
+  reject: (error: Error) => void;
+  stallTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface OutgoingTransfer {
+  cancelled: boolean; // the receiver gave up on it
+}
+
+// Bytes received so far for a bundle, kept across failed attempts so the
+// next request (to the same or another peer) resumes where this one stopped
+interface PartialBundle {
+  hash: string;
+  data: Uint8Array;
+  received: number;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return bytesToHex(new Uint8Array(digest));
+}
+
+export function encodeChunkFrame(bundleId: string, offset: number, total: number, hash: string, payload: Uint8Array): ArrayBuffer {
+  const id = new TextEncoder().encode(bundleId);
+  const frame = new Uint8Array(HEADER_SIZE + id.length + payload.length);
+  const view = new DataView(frame.buffer);
+
+  view.setUint8(0, FRAME_MAGIC);
+  view.setUint8(1, FRAME_CHUNK);
+  view.setUint16(2, id.length);
+  view.setUint32(4, offset);
+  view.setUint32(8, total);
+  frame.set(hexToBytes(hash), 12);
+  frame.set(id, HEADER_SIZE);
+  frame.set(payload, HEADER_SIZE + id.length);
+  return frame.buffer;
+}
+
+export function decodeChunkFrame(buffer: ArrayBuffer) {
+  if (buffer.byteLength < HEADER_SIZE) return null;
+
+  const view = new DataView(buffer);
+  if (view.getUint8(0) !== FRAME_MAGIC || view.getUint8(1) !== FRAME_CHUNK) return null;
+
+  const idLength = view.getUint16(2);
+  if (buffer.byteLength < HEADER_SIZE + idLength) return null;
+
+  const bytes = new Uint8Array(buffer);
+  return {
+    bundleId: new TextDecoder().decode(bytes.subarray(HEADER_SIZE, HEADER_SIZE + idLength)),
+    offset: view.getUint32(4),
+    total: view.getUint32(8),
+    hash: bytesToHex(bytes.subarray(12, 12 + HASH_SIZE)),
+    payload: bytes.subarray(HEADER_SIZE + idLength),
+  };
+}
+
+export class BundleTransfer {
+  private incoming: Map<string, IncomingTransfer> = new Map(); // by bundle id
+  private partials: Map<string, PartialBundle> = new Map(); // by bundle id
+  private outgoing: Map<string, OutgoingTransfer> = new Map(); // by `${peerId}:${bundleId}`
+  private handlers: Map<string, TransferHandler[]> = new Map();
+
+  constructor(private client: GhostClient = ghostClient, private store: BundleStore = ghostCompiler) {
+    // GhostClient validated the message against bundleTransferMessageSchema
+    this.client.on("data", ({ from, data }: { from: string; data: PeerMessage | PeerControlMessage }) => {
+      if ("kind" in data && data.kind === CONTROL_KIND) {
+        this.handleControl(from, data);
+      }
+    });
+    this.client.on("binary-data", ({ from, data }: { from: string; data: ArrayBuffer }) => {
+      this.handleChunk(from, data);
+    });
+    this.client.on("channel-close", ({ peerId }: { peerId: string }) => {
+      this.failTransfersFrom(peerId, "Data channel closed");
+    });
+  }
+
+  // Downloads a bundle from a peer and resolves once it has been verified
+  // against bundle.hash and stored. Resumes a previously interrupted download.
+  fetchBundle(peerId: string, bundle: Omit<GhostBundle, "data">): Promise<GhostBundle> {
+    if (this.incoming.has(bundle.id)) {
+      return Promise.reject(new Error(`Bundle ${bundle.id} is already being transferred`));
+    }
+    if (!this.client.getDataChannel(peerId)) {
+      return Promise.reject(new Error(`No open data channel with ${peerId}`));
+    }
+
+    let partial = this.partials.get(bundle.id);
+    if (!partial || partial.hash !== bundle.hash || partial.data.length !== bundle.size) {
+      partial = { hash: bundle.hash, data: new Uint8Array(bundle.size), received: 0 };
+      this.partials.set(bundle.id, partial);
+    }
+
+    return new Promise((resolve, reject) => {
+      const transfer: IncomingTransfer = { peerId, bundle, resolve, reject, stallTimer: null };
+      this.incoming.set(bundle.id, transfer);
+      this.armStallTimer(transfer);
+
+      this.sendControl(peerId, {
+        kind: CONTROL_KIND,
+        action: "request",
+        bundleId: bundle.id,
+        offset: partial!.received,
+      });
+    });
+  }
+
+  // Gives up on a running download: fetchBundle rejects with the reason and
+  // the sender stops. What arrived so far is kept for a later resume.
+  cancel(bundleId: string, reason = "Transfer cancelled") {
+    const transfer = this.incoming.get(bundleId);
+    if (!transfer) return;
+
+    this.sendControl(transfer.peerId, { kind: CONTROL_KIND, action: "cancel", bundleId });
+    this.finish(transfer, new Error(reason));
+  }
+
+  getProgress(bundleId: string): number {
+    const partial = this.partials.get(bundleId);
+    return partial && partial.data.length > 0 ? partial.received / partial.data.length : 0;
+  }
+
+  private handleControl(from: string, message: BundleTransferMessage) {
+    switch (message.action) {
+      case "request":
+        this.sendBundle(from, message.bundleId, message.offset).catch((error) => {
+          console.error(`Failed to send bundle ${message.bundleId} to ${from}:`, error);
+        });
+        break;
+
+      case "cancel": {
+        const key = `${from}:${message.bundleId}`;
+        const outgoing = this.outgoing.get(key);
+        if (outgoing) {
+          outgoing.cancelled = true;
+          this.outgoing.delete(key);
+        }
+        break;
+      }
+
+      case "error": {
+        const transfer = this.incoming.get(message.bundleId);
+        if (transfer && transfer.peerId === from) {
+          this.finish(transfer, new Error(message.error));
+        }
+        break;
+      }
+    }
+  }
+
+  private async sendBundle(peerId: string, bundleId: string, offset: number) {
+    const key = `${peerId}:${bundleId}`;
+    if (this.outgoing.has(key)) return;
+
+    const bundle = await this.store.getBundle(bundleId);
+    if (!bundle?.data) {
+      this.sendControl(peerId, { kind: CONTROL_KIND, action: "error", bundleId, error: "Bundle not available" });
+      return;
+    }
+
+    const data = new Uint8Array(bundle.data);
+    const chunkSize = MAX_FRAME_SIZE - HEADER_SIZE - new TextEncoder().encode(bundleId).length;
+    if (chunkSize <= 0) {
+      this.sendControl(peerId, { kind: CONTROL_KIND, action: "error", bundleId, error: "Bundle id too long" });
+      return;
+    }
+    const outgoing: OutgoingTransfer = { cancelled: false };
+    this.outgoing.set(key, outgoing);
+    try {
+      for (let position = Math.max(0, offset); position < data.length; position += chunkSize) {
+        const channel = await this.waitForBufferSpace(peerId);
+        if (!channel) return; // Receiver went away; it will resume from what it got
+        if (outgoing.cancelled) return;
+
+        const payload = data.subarray(position, Math.min(position + chunkSize, data.length));
+        channel.send(encodeChunkFrame(bundleId, position, data.length, bundle.hash, payload));
+      }
+    } finally {
+      // A cancel followed by a new request may have started another one
+      if (this.outgoing.get(key) === outgoing) {
+        this.outgoing.delete(key);
+      }
+    }
+  }
+
+  // Resolves with the channel once it has room for another chunk, or null if it closed
+  private waitForBufferSpace(peerId: string): Promise<RTCDataChannel | null> {
+    const channel = this.client.getDataChannel(peerId);
+    if (!channel) return Promise.resolve(null);
+    if (channel.bufferedAmount <= BUFFER_HIGH_WATER) return Promise.resolve(channel);
+
+    channel.bufferedAmountLowThreshold = BUFFER_LOW_WATER;
+    return new Promise((resolve) => {
+      const done = () => {
+        channel.removeEventListener("bufferedamountlow", done);
+        channel.removeEventListener("close", done);
+        resolve(channel.readyState === "open" ? channel : null);
+      };
+      channel.addEventListener("bufferedamountlow", done);
+      channel.addEventListener("close", done);
+    });
+  }
+
+  private handleChunk(from: string, buffer: ArrayBuffer) {
+    const frame = decodeChunkFrame(buffer);
+    if (!frame) return;
+
+    const transfer = this.incoming.get(frame.bundleId);
+    const partial = this.partials.get(frame.bundleId);
+    if (!transfer || !partial || transfer.peerId !== from) return;
+
+    if (frame.hash !== transfer.bundle.hash || frame.total !== partial.data.length) {
+      this.finish(transfer, new Error(`Peer ${from} is sending a different bundle ${frame.bundleId}`));
+      return;
+    }
+    // The channel is ordered, so anything but the next offset is a duplicate
+    // from an earlier attempt
+    if (frame.offset !== partial.received) return;
+    if (frame.offset + frame.payload.length > partial.data.length) {
+      this.finish(transfer, new Error(`Chunk past the end of bundle ${frame.bundleId}`));
+      return;
+    }
+
+    partial.data.set(frame.payload, frame.offset);
+    partial.received += frame.payload.length;
+    this.armStallTimer(transfer);
+
+    const progress: TransferProgress = {
+      peerId: from,
+      bundleId: frame.bundleId,
+      received: partial.received,
+      total: partial.data.length,
+    };
+    this.emit("progress", progress);
+
+    if (partial.received === partial.data.length) {
+      this.complete(transfer, partial).catch((error) => this.finish(transfer, error));
+    }
+  }
+
+  private async complete(transfer: IncomingTransfer, partial: PartialBundle) {
+    const { bundle } = transfer;
+    const hash = await sha256Hex(partial.data);
+
+    if (hash !== bundle.hash) {
+      // Corrupt: nothing of it is worth resuming from
+      this.partials.delete(bundle.id);
+      this.finish(transfer, new Error(`Hash mismatch for bundle ${bundle.id}`));
+      return;
+    }
+
+    // Cancelled, or given up as stalled, while the hash was computed
+    if (this.incoming.get(bundle.id) !== transfer) return;
+
+    const received: GhostBundle = { ...bundle, data: partial.data.buffer as ArrayBuffer };
+    await this.store.storeBundles([received]);
+    this.partials.delete(bundle.id);
+    if (this.incoming.get(bundle.id) !== transfer) return;
+    this.finish(transfer, null, received);
+  }
+
+  private finish(transfer: IncomingTransfer, error: Error | null, bundle?: GhostBundle) {
+    // Already settled, e.g. cancelled while complete() was running
+    if (this.incoming.get(transfer.bundle.id) !== transfer) return;
+    if (transfer.stallTimer) {
+      clearTimeout(transfer.stallTimer);
+    }
+    this.incoming.delete(transfer.bundle.id);
+
+    if (error) {
+      this.emit("error", { peerId: transfer.peerId, bundleId: transfer.bundle.id, error });
+      transfer.reject(error);
+    } else {
+      this.emit("complete", { peerId: transfer.peerId, bundleId: transfer.bundle.id });
+      transfer.resolve(bundle!);
+    }
+  }
+
+  private armStallTimer(transfer: IncomingTransfer) {
+    if (transfer.stallTimer) {
+      clearTimeout(transfer.stallTimer);
+    }
+    // Cancelled rather than just dropped, or the sender would keep pushing
+    // the rest of the bundle
+    transfer.stallTimer = setTimeout(() => {
+      this.cancel(transfer.bundle.id, `Transfer of bundle ${transfer.bundle.id} stalled`);
+    }, STALL_TIMEOUT_MS);
+  }
+
+  private failTransfersFrom(peerId: string, reason: string) {
+    Array.from(this.incoming.values())
+      .filter((transfer) => transfer.peerId === peerId)
+      .forEach((transfer) => this.finish(transfer, new Error(reason)));
+  }
+
+  private sendControl(peerId: string, message: BundleTransferMessage) {
+    this.client.sendToPeer(peerId, message);
+  }
+
+  on(event: string, handler: TransferHandler) {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, []);
+    }
+    this.handlers.get(event)!.push(handler);
+  }
+
+  off(event: string, handler: TransferHandler) {
+    const handlers = this.handlers.get(event);
+    if (handlers) {
+      const index = handlers.indexOf(handler);
+      if (index !== -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  private emit(event: string, data: any) {
+    const handlers = this.handlers.get(event);
+    if (handlers) {
+      handlers.forEach((handler) => handler(data));
+    }
+  }
+}
+
+export const bundleTransfer = new BundleTransfer();
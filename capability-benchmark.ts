@@ -0,0 +1,222 @@
+import type { PeerCapabilities, CapabilityBenchmark } from "@shared/ghost-types";
+
+// Short benchmark suite run when joining the Ghost Network, so that
+// PeerCapabilities reflects what the device actually does rather than what
+// the browser guesses. Each probe is time-boxed and falls back to zero (the
+// capability counts as missing) when the API is unavailable or fails.
+
+const PROBE_BUDGET_MS = 250;
+const STORAGE_BYTES = 1024 * 1024;
+const STORAGE_CHUNK_BYTES = 64 * 1024;
+const NETWORK_BYTES = 1024 * 1024;
+const NETWORK_TIMEOUT_MS = 3000;
+const FILL_CANVAS_SIZE = 512;
+
+// Measured minimums for a capability to count as present
+export const MIN_COMPUTE_MOPS = 50;
+export const MIN_FILL_RATE_MPIXELS = 100;
+export const MIN_STORAGE_MBPS = 1;
+
+// Two exported loops: "int" runs an LCG step (i32 mul + add) n times, "float"
+// an f64 multiply-add n times. Hand-assembled to keep the suite free of a
+// build step for a .wasm file.
+const LOOP_MODULE = new Uint8Array([
+  0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00, 0x01, 0x0b, 0x02, 0x60, 0x01, 0x7f, 0x01, 0x7f,
+  0x60, 0x01, 0x7f, 0x01, 0x7c, 0x03, 0x03, 0x02, 0x00, 0x01, 0x07, 0x0f, 0x02, 0x03, 0x69, 0x6e,
+  0x74, 0x00, 0x00, 0x05, 0x66, 0x6c, 0x6f, 0x61, 0x74, 0x00, 0x01, 0x0a, 0x6e, 0x02, 0x2e, 0x01,
+  0x01, 0x7f, 0x41, 0x01, 0x21, 0x01, 0x02, 0x40, 0x03, 0x40, 0x20, 0x00, 0x45, 0x0d, 0x01, 0x20,
+  0x01, 0x41, 0xed, 0x9c, 0x99, 0x8e, 0x04, 0x6c, 0x41, 0xb9, 0xe0, 0x00, 0x6a, 0x21, 0x01, 0x20,
+  0x00, 0x41, 0x01, 0x6b, 0x21, 0x00, 0x0c, 0x00, 0x0b, 0x0b, 0x20, 0x01, 0x0b, 0x3d, 0x01, 0x01,
+  0x7c, 0x44, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0xf0, 0x3f, 0x21, 0x01, 0x02, 0x40, 0x03, 0x40,
+  0x20, 0x00, 0x45, 0x0d, 0x01, 0x20, 0x01, 0x44, 0x9b, 0xf2, 0xd7, 0x1a, 0x00, 0x00, 0xf0, 0x3f,
+  0xa2, 0x44, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0xe0, 0x3f, 0xa0, 0x21, 0x01, 0x20, 0x00, 0x41,
+  0x01, 0x6b, 0x21, 0x00, 0x0c, 0x00, 0x0b, 0x0b, 0x20, 0x01, 0x0b,
+]);
+
+// Runs `step(n)` with growing n until one call takes a measurable share of
+// the budget, then returns operations per second in millions
+function measureLoop(step: (iterations: number) => unknown): number {
+  let iterations = 100000;
+  while (true) {
+    const start = performance.now();
+    step(iterations);
+    const elapsed = performance.now() - start;
+    if (elapsed >= PROBE_BUDGET_MS / 4 || iterations >= 1 << 30) {
+      return iterations / Math.max(elapsed, 0.001) / 1000;
+    }
+    iterations *= 4;
+  }
+}
+
+async function benchmarkWasm(): Promise<{ intMops: number; floatMflops: number }> {
+  if (typeof WebAssembly === "undefined") return { intMops: 0, floatMflops: 0 };
+  try {
+    const { instance } = await WebAssembly.instantiate(LOOP_MODULE);
+    const exports = instance.exports as { int: (n: number) => number; float: (n: number) => number };
+    return {
+      // Two operations (mul, add) per iteration in both loops
+      intMops: measureLoop(exports.int) * 2,
+      floatMflops: measureLoop(exports.float) * 2,
+    };
+  } catch {
+    return { intMops: 0, floatMflops: 0 };
+  }
+}
+
+const FILL_VERTEX_SHADER = `
+attribute vec2 position;
+void main() { gl_Position = vec4(position, 0.0, 1.0); }`;
+
+const FILL_FRAGMENT_SHADER = `
+precision mediump float;
+uniform float shade;
+void main() { gl_FragColor = vec4(shade, 0.5, 1.0 - shade, 0.5); }`;
+
+// Blended full-canvas quads, in megapixels per second
+function benchmarkFillRate(): number {
+  if (typeof document === "undefined") return 0;
+  const canvas = document.createElement("canvas");
+  canvas.width = FILL_CANVAS_SIZE;
+  canvas.height = FILL_CANVAS_SIZE;
+  const gl = canvas.getContext("webgl", { antialias: false, preserveDrawingBuffer: false });
+  if (!gl) return 0;
+
+  try {
+    const compile = (type: number, source: string) => {
+      const shader = gl.createShader(type)!;
+      gl.shaderSource(shader, source);
+      gl.compileShader(shader);
+      return shader;
+    };
+    const program = gl.createProgram()!;
+    gl.attachShader(program, compile(gl.VERTEX_SHADER, FILL_VERTEX_SHADER));
+    gl.attachShader(program, compile(gl.FRAGMENT_SHADER, FILL_FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) return 0;
+    gl.useProgram(program);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer());
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(program, "position");
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    const shade = gl.getUniformLocation(program, "shade");
+
+    let quads = 0;
+    const start = performance.now();
+    let elapsed = 0;
+    while (elapsed < PROBE_BUDGET_MS) {
+      for (let i = 0; i < 16; i++, quads++) {
+        gl.uniform1f(shade, (quads % 256) / 255);
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+      }
+      // Wait for the GPU, otherwise only the command submission is timed
+      gl.readPixels(0, 0, 1, 1, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array(4));
+      elapsed = performance.now() - start;
+    }
+
+    return (quads * FILL_CANVAS_SIZE * FILL_CANVAS_SIZE) / (elapsed / 1000) / 1e6;
+  } catch {
+    return 0;
+  } finally {
+    gl.getExtension("WEBGL_lose_context")?.loseContext();
+  }
+}
+
+// Sequential writes of 1MB into a throwaway IndexedDB database, in MB/s
+async function benchmarkStorage(): Promise<number> {
+  if (typeof indexedDB === "undefined") return 0;
+  const name = `ghost-benchmark-${Math.random().toString(36).slice(2)}`;
+
+  try {
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore("chunks");
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    const chunk = new Uint8Array(STORAGE_CHUNK_BYTES);
+    const start = performance.now();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction("chunks", "readwrite");
+      const store = tx.objectStore("chunks");
+      for (let offset = 0; offset < STORAGE_BYTES; offset += STORAGE_CHUNK_BYTES) {
+        store.put(chunk.slice(), offset);
+      }
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    const elapsed = performance.now() - start;
+
+    db.close();
+    return STORAGE_BYTES / 1024 / 1024 / (elapsed / 1000);
+  } catch {
+    return 0;
+  } finally {
+    indexedDB.deleteDatabase(name);
+  }
+}
+
+async function timedFetch(url: string, init: RequestInit): Promise<number> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), NETWORK_TIMEOUT_MS);
+  try {
+    const start = performance.now();
+    const res = await fetch(url, { ...init, credentials: "include", signal: controller.signal });
+    if (!res.ok) return 0;
+    await res.arrayBuffer();
+    const elapsed = performance.now() - start;
+    return (NETWORK_BYTES * 8) / (elapsed / 1000) / 1e6;
+  } catch {
+    return 0;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Round trips of 1MB each way to the Ghost server, in Mbps
+async function benchmarkNetwork(): Promise<{ downloadMbps: number; uploadMbps: number }> {
+  const downloadMbps = await timedFetch(`/api/ghost/benchmark?bytes=${NETWORK_BYTES}`, { method: "GET" });
+  const uploadMbps = await timedFetch("/api/ghost/benchmark", {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: new Uint8Array(NETWORK_BYTES),
+  });
+  return { downloadMbps, uploadMbps };
+}
+
+export async function runCapabilityBenchmarks(): Promise<CapabilityBenchmark> {
+  // One at a time, so the probes do not skew each other
+  const wasm = await benchmarkWasm();
+  const fillRateMpixels = benchmarkFillRate();
+  const storageWriteMBps = await benchmarkStorage();
+  const network = await benchmarkNetwork();
+
+  return {
+    wasmIntMops: Math.round(wasm.intMops),
+    wasmFloatMflops: Math.round(wasm.floatMflops),
+    fillRateMpixels: Math.round(fillRateMpixels),
+    storageWriteMBps: Math.round(storageWriteMBps * 10) / 10,
+    downloadMbps: Math.round(network.downloadMbps),
+    uploadMbps: Math.round(network.uploadMbps),
+    measuredAt: Date.now(),
+  };
+}
+
+// The measured numbers replace the browser's guesses
+export function applyBenchmark(capabilities: PeerCapabilities, benchmark: CapabilityBenchmark): PeerCapabilities {
+  const measuredBandwidth = Math.min(benchmark.downloadMbps, benchmark.uploadMbps);
+  return {
+    ...capabilities,
+    hasGPU: benchmark.fillRateMpixels > 0,
+    hasWASM: benchmark.wasmIntMops > 0,
+    bandwidth: measuredBandwidth > 0 ? measuredBandwidth : capabilities.bandwidth,
+    canRender: benchmark.fillRateMpixels >= MIN_FILL_RATE_MPIXELS,
+    canCompute: Math.min(benchmark.wasmIntMops, benchmark.wasmFloatMflops) >= MIN_COMPUTE_MOPS,
+    canStore: benchmark.storageWriteMBps >= MIN_STORAGE_MBPS,
+    benchmark,
+  };
+}
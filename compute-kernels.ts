@@ -0,0 +1,86 @@
+// Task kernels run by the compute pool, inside a Web Worker (see
+// compute-worker.ts) or inline where workers are not available. They only
+// see the task payload, so everything they need is encoded in it.
+
+export interface KernelOutput {
+  result?: Record<string, any>;
+  data?: ArrayBuffer | null;
+}
+
+type Kernel = (data: ArrayBuffer | null) => KernelOutput;
+
+const PHYSICS_STEP = 1 / 60;
+const GRAVITY = -9.81;
+const RESTITUTION = 0.8;
+
+// Particles as Float32 [x, y, vx, vy] in a unit box: one fixed 60Hz step
+// with gravity, bouncing off the walls
+function physics(data: ArrayBuffer | null): KernelOutput {
+  if (!data) return { result: { particles: 0 }, data: null };
+  const particles = new Float32Array(data);
+  const count = Math.floor(particles.length / 4);
+
+  for (let i = 0; i < count; i++) {
+    const p = i * 4;
+    particles[p + 3] += GRAVITY * PHYSICS_STEP;
+    particles[p] += particles[p + 2] * PHYSICS_STEP;
+    particles[p + 1] += particles[p + 3] * PHYSICS_STEP;
+
+    for (const [pos, vel] of [[p, p + 2], [p + 1, p + 3]]) {
+      if (particles[pos] < 0) {
+        particles[pos] = -particles[pos];
+        particles[vel] = -particles[vel] * RESTITUTION;
+      } else if (particles[pos] > 1) {
+        particles[pos] = 2 - particles[pos];
+        particles[vel] = -particles[vel] * RESTITUTION;
+      }
+    }
+  }
+
+  return { result: { particles: count }, data };
+}
+
+// RGBA8 pixels, premultiplied by alpha so the GPU can blend them directly
+function texture(data: ArrayBuffer | null): KernelOutput {
+  if (!data) return { result: { pixels: 0 }, data: null };
+  const pixels = new Uint8ClampedArray(data);
+
+  for (let i = 0; i + 3 < pixels.length; i += 4) {
+    const alpha = pixels[i + 3] / 255;
+    pixels[i] *= alpha;
+    pixels[i + 1] *= alpha;
+    pixels[i + 2] *= alpha;
+  }
+
+  return { result: { pixels: Math.floor(pixels.length / 4) }, data };
+}
+
+// Float32 samples, normalized so the loudest one sits at full scale
+function audio(data: ArrayBuffer | null): KernelOutput {
+  if (!data) return { result: { samples: 0, peak: 0 }, data: null };
+  const samples = new Float32Array(data);
+
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  if (peak > 0) {
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] /= peak;
+    }
+  }
+
+  return { result: { samples: samples.length, peak }, data };
+}
+
+const kernels: Record<string, Kernel> = { physics, texture, audio };
+
+export const COMPUTE_TASK_TYPES = Object.keys(kernels);
+
+export function runKernel(type: string, data: ArrayBuffer | null): KernelOutput {
+  const kernel = kernels[type];
+  if (!kernel) {
+    throw new Error(`No compute kernel for ${type}`);
+  }
+  return kernel(data);
+}
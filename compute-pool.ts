@@ -0,0 +1,195 @@
+import { runKernel, COMPUTE_TASK_TYPES, type KernelOutput } from "./compute-kernels";
+import type { ComputeJobMessage, ComputeJobReply } from "./compute-worker";
+
+// Pool of Web Workers that runs compute tasks off the main thread, where the
+// emulator's render loop lives. Payloads are transferred, not copied: the
+// caller's ArrayBuffer is detached once the job is submitted.
+
+// At most this many workers, however many cores the device reports
+const MAX_WORKERS = 8;
+
+interface ComputeJob {
+  id: number;
+  type: string;
+  data: ArrayBuffer | null;
+  resolve: (output: KernelOutput) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: ComputeJob | null;
+}
+
+export interface ComputePoolStats {
+  size: number;
+  busy: number;
+  queued: number;
+  load: number; // (busy + queued) / size, 0 when idle
+  completed: number;
+  cancelled: number;
+}
+
+function abortError(): Error {
+  const error = new Error("Compute job cancelled");
+  error.name = "AbortError";
+  return error;
+}
+
+export class ComputePool {
+  private workers: PoolWorker[] = [];
+  private queue: ComputeJob[] = [];
+  private nextJobId = 1;
+  private inlineBusy = 0;
+  private completed = 0;
+  private cancelled = 0;
+  private size: number;
+
+  // One core is left to the main thread
+  constructor(size?: number) {
+    const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+    this.size = Math.max(1, Math.min(MAX_WORKERS, size ?? cores - 1));
+  }
+
+  supports(type: string): boolean {
+    return COMPUTE_TASK_TYPES.includes(type);
+  }
+
+  run(type: string, data: ArrayBuffer | null, signal?: AbortSignal): Promise<KernelOutput> {
+    if (signal?.aborted) return Promise.reject(abortError());
+
+    // Without worker support (tests, old WebViews) the kernel runs inline
+    if (typeof Worker === "undefined") {
+      return this.runInline(type, data);
+    }
+
+    return new Promise((resolve, reject) => {
+      const job: ComputeJob = { id: this.nextJobId++, type, data, resolve, reject, signal };
+      if (signal) {
+        job.onAbort = () => this.cancel(job);
+        signal.addEventListener("abort", job.onAbort, { once: true });
+      }
+      this.queue.push(job);
+      this.pump();
+    });
+  }
+
+  getLoad(): number {
+    return this.getStats().load;
+  }
+
+  getStats(): ComputePoolStats {
+    const busy = this.workers.filter((w) => w.job !== null).length + this.inlineBusy;
+    return {
+      size: this.size,
+      busy,
+      queued: this.queue.length,
+      load: (busy + this.queue.length) / this.size,
+      completed: this.completed,
+      cancelled: this.cancelled,
+    };
+  }
+
+  terminate() {
+    this.workers.forEach(({ worker, job }) => {
+      worker.terminate();
+      if (job) this.settle(job, abortError());
+    });
+    this.workers = [];
+    this.queue.splice(0).forEach((job) => this.settle(job, abortError()));
+  }
+
+  private async runInline(type: string, data: ArrayBuffer | null): Promise<KernelOutput> {
+    this.inlineBusy++;
+    try {
+      const output = runKernel(type, data);
+      this.completed++;
+      return output;
+    } finally {
+      this.inlineBusy--;
+    }
+  }
+
+  private pump() {
+    while (this.queue.length > 0) {
+      let slot = this.workers.find((w) => w.job === null);
+      if (!slot && this.workers.length < this.size) {
+        slot = this.spawn();
+      }
+      if (!slot) return;
+
+      const job = this.queue.shift()!;
+      slot.job = job;
+      const message: ComputeJobMessage = { id: job.id, type: job.type, data: job.data };
+      slot.worker.postMessage(message, job.data ? [job.data] : []);
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const worker = new Worker(new URL("./compute-worker.ts", import.meta.url), { type: "module" });
+    const slot: PoolWorker = { worker, job: null };
+
+    worker.onmessage = (event: MessageEvent<ComputeJobReply>) => {
+      const job = slot.job;
+      if (!job || job.id !== event.data.id) return;
+      slot.job = null;
+
+      const reply = event.data;
+      if (reply.ok) {
+        this.completed++;
+        this.settle(job, null, { result: reply.result, data: reply.data });
+      } else {
+        this.settle(job, new Error(reply.error));
+      }
+      this.pump();
+    };
+
+    worker.onerror = (event) => {
+      // A crashed worker is replaced; its job fails
+      const job = slot.job;
+      this.replace(slot);
+      if (job) this.settle(job, new Error(event.message || "Compute worker crashed"));
+      this.pump();
+    };
+
+    this.workers.push(slot);
+    return slot;
+  }
+
+  // Queued jobs are dropped; a running one can only be stopped by
+  // terminating its worker, which is then replaced on demand
+  private cancel(job: ComputeJob) {
+    const queued = this.queue.indexOf(job);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+    } else {
+      const slot = this.workers.find((w) => w.job === job);
+      if (!slot) return;
+      this.replace(slot);
+    }
+    this.cancelled++;
+    this.settle(job, abortError());
+    this.pump();
+  }
+
+  private replace(slot: PoolWorker) {
+    slot.worker.terminate();
+    slot.job = null;
+    this.workers = this.workers.filter((w) => w !== slot);
+  }
+
+  private settle(job: ComputeJob, error: Error | null, output?: KernelOutput) {
+    if (job.signal && job.onAbort) {
+      job.signal.removeEventListener("abort", job.onAbort);
+    }
+    if (error) {
+      job.reject(error);
+    } else {
+      job.resolve(output!);
+    }
+  }
+}
+
+export const computePool = new ComputePool();
@@ -0,0 +1,30 @@
+import { runKernel } from "./compute-kernels";
+
+// Entry point of the compute pool's workers, see compute-pool.ts
+
+export interface ComputeJobMessage {
+  id: number;
+  type: string;
+  data: ArrayBuffer | null;
+}
+
+export type ComputeJobReply =
+  | { id: number; ok: true; result: Record<string, any>; data: ArrayBuffer | null }
+  | { id: number; ok: false; error: string };
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ComputeJobMessage>) => void) | null;
+  postMessage(message: ComputeJobReply, transfer?: Transferable[]): void;
+};
+
+scope.onmessage = (event) => {
+  const { id, type, data } = event.data;
+  try {
+    const output = runKernel(type, data);
+    const outData = output.data ?? null;
+    // The payload goes back without a copy, like it came in
+    scope.postMessage({ id, ok: true, result: output.result || {}, data: outData }, outData ? [outData] : []);
+  } catch (error) {
+    scope.postMessage({ id, ok: false, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,118 @@
+import { Capacitor, registerPlugin } from "@capacitor/core";
+
+// Battery and busyness of this device, sent to the other peers with every
+// latency pong so that the scheduler spares phones that are about to die or
+// already struggling. Browsers without the Battery Status API (Firefox,
+// Safari) report an unknown battery, which counts as being plugged in.
+
+const LOAD_SAMPLE_INTERVAL_MS = 500;
+// The Capacitor plugin has no change events, it is polled
+const NATIVE_BATTERY_POLL_MS = 30000;
+// Weight of the newest sample in the load estimate
+const LOAD_SMOOTHING = 0.2;
+
+export interface DevicePowerStatus {
+  batteryLevel: number | null; // percent, null when unknown
+  charging: boolean | null;
+  cpuLoad: number; // 0..1, how late the main thread runs its timers
+}
+
+// The parts of the Battery Status API used here
+interface BatteryManagerLike extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+// @capacitor/device, when the native shell includes it
+interface DevicePlugin {
+  getBatteryInfo(): Promise<{ batteryLevel?: number; isCharging?: boolean }>;
+}
+
+const Device = registerPlugin<DevicePlugin>("Device");
+
+export class DeviceStatusMonitor {
+  private status: DevicePowerStatus = { batteryLevel: null, charging: null, cpuLoad: 0 };
+  private battery: BatteryManagerLike | null = null;
+  private loadInterval: ReturnType<typeof setInterval> | null = null;
+  private batteryInterval: ReturnType<typeof setInterval> | null = null;
+  private lastSampleAt: number = 0;
+
+  start() {
+    if (this.loadInterval) return;
+
+    this.lastSampleAt = performance.now();
+    this.loadInterval = setInterval(() => this.sampleLoad(), LOAD_SAMPLE_INTERVAL_MS);
+    this.watchBattery().catch(() => {
+      // Battery stays unknown
+    });
+  }
+
+  stop() {
+    if (this.loadInterval) {
+      clearInterval(this.loadInterval);
+      this.loadInterval = null;
+    }
+    if (this.batteryInterval) {
+      clearInterval(this.batteryInterval);
+      this.batteryInterval = null;
+    }
+    if (this.battery) {
+      this.battery.removeEventListener("levelchange", this.readBattery);
+      this.battery.removeEventListener("chargingchange", this.readBattery);
+      this.battery = null;
+    }
+  }
+
+  getStatus(): DevicePowerStatus {
+    return { ...this.status };
+  }
+
+  // A timer firing late means the main thread was busy (or the CPU is
+  // throttled, browsers have no thermal API to ask directly)
+  private sampleLoad() {
+    const now = performance.now();
+    const lag = now - this.lastSampleAt - LOAD_SAMPLE_INTERVAL_MS;
+    this.lastSampleAt = now;
+
+    // Hidden tabs get their timers throttled, which is not load
+    if (typeof document !== "undefined" && document.hidden) return;
+
+    const sample = Math.min(Math.max(lag / LOAD_SAMPLE_INTERVAL_MS, 0), 1);
+    this.status.cpuLoad = this.status.cpuLoad * (1 - LOAD_SMOOTHING) + sample * LOAD_SMOOTHING;
+  }
+
+  private async watchBattery() {
+    if (Capacitor.isNativePlatform() && Capacitor.isPluginAvailable("Device")) {
+      const poll = async () => {
+        const info = await Device.getBatteryInfo();
+        this.status.batteryLevel = info.batteryLevel !== undefined ? Math.round(info.batteryLevel * 100) : null;
+        this.status.charging = info.isCharging ?? null;
+      };
+      await poll();
+      if (!this.loadInterval) return; // stopped meanwhile
+      this.batteryInterval = setInterval(() => {
+        poll().catch(() => {
+          // Keep the last reading
+        });
+      }, NATIVE_BATTERY_POLL_MS);
+      return;
+    }
+
+    const nav = navigator as Navigator & { getBattery?: () => Promise<BatteryManagerLike> };
+    if (!nav.getBattery) return;
+    const battery = await nav.getBattery();
+    if (!this.loadInterval) return;
+    this.battery = battery;
+    this.battery.addEventListener("levelchange", this.readBattery);
+    this.battery.addEventListener("chargingchange", this.readBattery);
+    this.readBattery();
+  }
+
+  private readBattery = () => {
+    if (!this.battery) return;
+    this.status.batteryLevel = Math.round(this.battery.level * 100);
+    this.status.charging = this.battery.charging;
+  };
+}
+
+export const deviceStatus = new DeviceStatusMonitor();
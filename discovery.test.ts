@@ -0,0 +1,108 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import dgram from "dgram";
+import { DiscoveryRegistry, LanAdvertiser } from "./discovery";
+
+// Two advertisers in one process see each other through multicast loopback.
+// A group and port of their own keep real servers on the LAN out of the test.
+const MULTICAST_ADDRESS = "239.255.71.84";
+const MULTICAST_PORT = 47184;
+const INTERVAL_MS = 50;
+
+async function until(condition: () => boolean, timeoutMs: number = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe("DiscoveryRegistry", () => {
+  it("forgets announcements once their TTL is over", () => {
+    const registry = new DiscoveryRegistry();
+    const announcement = { name: "TV", kind: "peer" as const, capabilities: null, address: "10.0.0.2", url: null };
+    registry.announce({ ...announcement, id: "live" });
+    registry.announce({ ...announcement, id: "expired" }, 0);
+
+    assert.deepEqual(registry.list().map((entry) => entry.id), ["live"]);
+  });
+});
+
+describe("LanAdvertiser", () => {
+  let advertisers: LanAdvertiser[] = [];
+
+  afterEach(() => {
+    advertisers.forEach((advertiser) => advertiser.stop());
+    advertisers = [];
+  });
+
+  async function startAdvertiser(registry: DiscoveryRegistry, name: string, httpPort: number) {
+    const advertiser = new LanAdvertiser(registry, {
+      name,
+      httpPort,
+      multicastAddress: MULTICAST_ADDRESS,
+      multicastPort: MULTICAST_PORT,
+      intervalMs: INTERVAL_MS,
+    });
+    advertisers.push(advertiser);
+    await advertiser.start();
+    return advertiser;
+  }
+
+  it("records the other servers' beacons and not its own", async () => {
+    const registryA = new DiscoveryRegistry();
+    const registryB = new DiscoveryRegistry();
+    const a = await startAdvertiser(registryA, "Living room", 5000);
+    const b = await startAdvertiser(registryB, "Office", 5001);
+
+    await until(() => registryA.list().length > 0 && registryB.list().length > 0);
+    // A few more rounds, in which each also hears its own beacon
+    await new Promise((resolve) => setTimeout(resolve, INTERVAL_MS * 3));
+
+    const [seenByA] = registryA.list();
+    assert.equal(registryA.list().length, 1);
+    assert.equal(seenByA.id, b.serverId);
+    assert.equal(seenByA.name, "Office");
+    assert.equal(seenByA.kind, "server");
+    assert.equal(seenByA.url, `http://${seenByA.address}:5001`);
+
+    assert.deepEqual(registryB.list().map((entry) => entry.id), [a.serverId]);
+    assert.equal(registryB.list()[0].url, `http://${registryB.list()[0].address}:5000`);
+  });
+
+  it("drops beacons that do not match the schema", async () => {
+    const registry = new DiscoveryRegistry();
+    await startAdvertiser(registry, "Listener", 5000);
+    const sender = dgram.createSocket({ type: "udp4", reuseAddr: true });
+    const send = (beacon: unknown) =>
+      new Promise((resolve) => sender.send(JSON.stringify(beacon), MULTICAST_PORT, MULTICAST_ADDRESS, resolve));
+
+    try {
+      const beacon = { app: "sistema-fantasma", serverId: "other", name: "Office", port: 5001 };
+      await send({ ...beacon, port: 70000 });
+      await send({ ...beacon, port: 80.5 });
+      await send({ ...beacon, port: "5001" });
+      await send({ ...beacon, name: { toString: "Office" } });
+      await send({ ...beacon, serverId: "valid" });
+      // Loopback delivers in order: the invalid ones were handled before
+      await until(() => registry.list().length > 0);
+
+      assert.deepEqual(registry.list().map((entry) => entry.id), ["valid"]);
+    } finally {
+      sender.close();
+    }
+  });
+
+  it("stops advertising when stopped", async () => {
+    const registry = new DiscoveryRegistry();
+    await startAdvertiser(registry, "Listener", 5000);
+    const speaker = await startAdvertiser(new DiscoveryRegistry(), "Speaker", 5001);
+    await until(() => registry.list().length === 1);
+
+    speaker.stop();
+    registry.remove(speaker.serverId);
+    await new Promise((resolve) => setTimeout(resolve, INTERVAL_MS * 3));
+
+    assert.deepEqual(registry.list(), []);
+  });
+});
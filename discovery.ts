@@ -0,0 +1,178 @@
+import dgram from "dgram";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { log } from "./log";
+import type { DiscoveredPeer } from "@shared/ghost-types";
+
+// Clients re-announce every 10s, so an entry survives two missed broadcasts
+const ANNOUNCEMENT_TTL_MS = 30000;
+
+const MULTICAST_ADDRESS = "239.255.71.83";
+const MULTICAST_PORT = 47183;
+const ADVERTISE_INTERVAL_MS = 5000;
+const BEACON_APP = "sistema-fantasma";
+
+type Announcement = Omit<DiscoveredPeer, "lastSeen" | "expiresAt">;
+
+// Anything on the LAN can send to the group, so beacons are checked in full
+const serverBeaconSchema = z.object({
+  app: z.literal(BEACON_APP),
+  serverId: z.string(),
+  name: z.string(),
+  port: z.number().int().min(1).max(65535),
+});
+
+type ServerBeacon = z.infer<typeof serverBeaconSchema>;
+
+export class DiscoveryRegistry {
+  private entries: Map<string, DiscoveredPeer> = new Map();
+
+  announce(announcement: Announcement, ttlMs: number = ANNOUNCEMENT_TTL_MS): DiscoveredPeer {
+    const now = Date.now();
+    const entry: DiscoveredPeer = { ...announcement, lastSeen: now, expiresAt: now + ttlMs };
+    this.entries.set(entry.id, entry);
+    return entry;
+  }
+
+  list(): DiscoveredPeer[] {
+    this.prune();
+    return Array.from(this.entries.values());
+  }
+
+  remove(id: string): boolean {
+    return this.entries.delete(id);
+  }
+
+  private prune() {
+    const now = Date.now();
+    Array.from(this.entries.entries()).forEach(([id, entry]) => {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(id);
+      }
+    });
+  }
+}
+
+export interface LanAdvertiserOptions {
+  name: string;
+  httpPort: number;
+  multicastAddress?: string;
+  multicastPort?: number;
+  intervalMs?: number;
+}
+
+// Advertises this server over UDP multicast and records the beacons of other
+// Sistema Fantasma servers on the same LAN in the discovery registry.
+export class LanAdvertiser {
+  readonly serverId: string = randomUUID();
+  private socket: dgram.Socket | null = null;
+  private interval: NodeJS.Timeout | null = null;
+  private multicastAddress: string;
+  private multicastPort: number;
+  private intervalMs: number;
+
+  constructor(private registry: DiscoveryRegistry, private options: LanAdvertiserOptions) {
+    this.multicastAddress = options.multicastAddress ?? MULTICAST_ADDRESS;
+    this.multicastPort = options.multicastPort ?? MULTICAST_PORT;
+    this.intervalMs = options.intervalMs ?? ADVERTISE_INTERVAL_MS;
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+      this.socket = socket;
+
+      socket.once("error", reject);
+      socket.on("message", (data, rinfo) => this.handleBeacon(data, rinfo));
+
+      socket.bind(this.multicastPort, () => {
+        socket.off("error", reject);
+        socket.on("error", (error) => log(`Multicast error: ${error}`, "discovery"));
+
+        try {
+          socket.addMembership(this.multicastAddress);
+          socket.setMulticastLoopback(true);
+        } catch (error) {
+          // No multicast route, e.g. a host without a LAN interface
+          this.stop();
+          return reject(error);
+        }
+
+        this.advertise();
+        this.interval = setInterval(() => this.advertise(), this.intervalMs);
+        log(`Advertising on ${this.multicastAddress}:${this.multicastPort}`, "discovery");
+        resolve();
+      });
+    });
+  }
+
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    if (this.socket) {
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  private advertise() {
+    const beacon: ServerBeacon = {
+      app: BEACON_APP,
+      serverId: this.serverId,
+      name: this.options.name,
+      port: this.options.httpPort,
+    };
+    this.socket?.send(JSON.stringify(beacon), this.multicastPort, this.multicastAddress);
+  }
+
+  private handleBeacon(data: Buffer, rinfo: dgram.RemoteInfo) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+
+    const result = serverBeaconSchema.safeParse(parsed);
+    if (!result.success) return;
+    const beacon = result.data;
+    if (beacon.serverId === this.serverId) return;
+
+    this.registry.announce({
+      id: beacon.serverId,
+      name: beacon.name,
+      kind: "server",
+      capabilities: null,
+      address: rinfo.address,
+      url: `http://${rinfo.address}:${beacon.port}`,
+    }, this.intervalMs * 3);
+  }
+}
+
+let discoveryRegistry: DiscoveryRegistry | null = null;
+let lanAdvertiser: LanAdvertiser | null = null;
+
+export function initDiscovery(): DiscoveryRegistry {
+  if (!discoveryRegistry) {
+    discoveryRegistry = new DiscoveryRegistry();
+
+    // Multicast is opt-in: some networks (and most cloud hosts) drop it
+    if (process.env.GHOST_LAN_DISCOVERY === "true") {
+      lanAdvertiser = new LanAdvertiser(discoveryRegistry, {
+        name: process.env.GHOST_SERVER_NAME || "Sistema Fantasma",
+        httpPort: parseInt(process.env.PORT || "5000", 10),
+      });
+      lanAdvertiser.start().catch((error) => {
+        log(`LAN advertising unavailable: ${error}`, "discovery");
+        lanAdvertiser = null;
+      });
+    }
+  }
+  return discoveryRegistry;
+}
+
+export function getDiscovery(): DiscoveryRegistry | null {
+  return discoveryRegistry;
+}
@@ -2,6 +2,7 @@ import { useEffect, useRef, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { X, Maximize2, Minimize2, Volume2, VolumeX, Menu } from "lucide-react";
+import { ghostClient } from "@/lib/ghost-client";
 
 interface EmulatorPlayerProps {
   romUrl: string;
@@ -158,6 +159,25 @@ export function EmulatorPlayer({ romUrl, romName, core, onClose }: EmulatorPlaye
     };
   }, [romUrl, romName, core]);
 
+  // Reporta o FPS real da página para as estatísticas da rede fantasma
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    let frames = 0;
+    let lastReport = performance.now();
+    let frameId = requestAnimationFrame(function countFrame(now) {
+      frames++;
+      if (now - lastReport >= 1000) {
+        ghostClient.reportStats(Math.round((frames * 1000) / (now - lastReport)));
+        frames = 0;
+        lastReport = now;
+      }
+      frameId = requestAnimationFrame(countFrame);
+    });
+
+    return () => cancelAnimationFrame(frameId);
+  }, [isLoaded]);
+
   const toggleFullscreen = () => {
     if (!containerRef.current) return;
     
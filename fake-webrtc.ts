@@ -0,0 +1,178 @@
+// Stand-ins for RTCPeerConnection and RTCDataChannel, for running several
+// GhostClients in one process (see ghost-client.test.ts). Connections pair
+// up through the SDP they exchange, which is just the connection's id, and
+// the negotiated data channels open once an offer has been answered.
+
+export const NEGOTIATED_MAX_MESSAGE_SIZE = 256 * 1024;
+
+export class FakeDataChannel {
+  readyState: RTCDataChannelState = "connecting";
+  binaryType: BinaryType = "blob";
+  // Delivery is immediate, so nothing ever queues up
+  bufferedAmount: number = 0;
+  bufferedAmountLowThreshold: number = 0;
+  remote: FakeDataChannel | null = null;
+  onopen: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(readonly label: string, readonly id: number) {}
+
+  open(remote: FakeDataChannel) {
+    this.remote = remote;
+    this.readyState = "open";
+    queueMicrotask(() => this.onopen?.());
+  }
+
+  send(data: unknown) {
+    if (this.readyState !== "open") throw new Error("Data channel is not open");
+    const remote = this.remote!;
+    queueMicrotask(() => {
+      if (remote.readyState === "open") remote.onmessage?.({ data });
+    });
+  }
+
+  close() {
+    if (this.readyState === "closed") return;
+    this.readyState = "closed";
+    queueMicrotask(() => this.onclose?.());
+    this.remote?.close();
+  }
+}
+
+export class FakeNetwork {
+  connections: Map<string, FakePeerConnection> = new Map();
+  created: number = 0;
+  private sides: Map<string, number> | null = null; // owner -> side, while partitioned
+
+  createPeerConnection = (config: RTCConfiguration): RTCPeerConnection => {
+    return this.peerConnectionFactory(null)(config);
+  };
+
+  // Connections created through the factory belong to `owner`, which is what
+  // partition() splits by
+  peerConnectionFactory(owner: string | null): (config: RTCConfiguration) => RTCPeerConnection {
+    return () => {
+      const pc = new FakePeerConnection(this, `pc-${++this.created}`, owner);
+      this.connections.set(pc.id, pc);
+      return pc as unknown as RTCPeerConnection;
+    };
+  }
+
+  openConnections(): FakePeerConnection[] {
+    return Array.from(this.connections.values()).filter((pc) => pc.connectionState !== "closed");
+  }
+
+  // Data channels between the sides close and no new ones open; signaling
+  // still gets through, as with peers that cannot reach each other directly
+  partition(...sides: string[][]) {
+    this.sides = new Map();
+    sides.forEach((side, index) => side.forEach((owner) => this.sides!.set(owner, index)));
+    this.openConnections()
+      .filter((pc) => pc.remote && !this.reachable(pc, pc.remote))
+      .forEach((pc) => pc.channels.forEach((channel) => channel.close()));
+  }
+
+  reachable(a: FakePeerConnection, b: FakePeerConnection): boolean {
+    if (!this.sides || a.owner === null || b.owner === null) return true;
+    return this.sides.get(a.owner) === this.sides.get(b.owner);
+  }
+}
+
+export class FakePeerConnection {
+  signalingState: RTCSignalingState = "stable";
+  connectionState: RTCPeerConnectionState = "new";
+  iceConnectionState: RTCIceConnectionState = "new";
+  localDescription: RTCSessionDescriptionInit | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+  sctp: { maxMessageSize: number } | null = null;
+  remote: FakePeerConnection | null = null;
+  channels: FakeDataChannel[] = [];
+  candidates: RTCIceCandidateInit[] = [];
+  onicecandidate: ((event: { candidate: RTCIceCandidateInit | null }) => void) | null = null;
+  onnegotiationneeded: (() => void) | null = null;
+  oniceconnectionstatechange: (() => void) | null = null;
+  onconnectionstatechange: (() => void) | null = null;
+
+  constructor(private network: FakeNetwork, readonly id: string, readonly owner: string | null) {}
+
+  createDataChannel(label: string, options: RTCDataChannelInit): FakeDataChannel {
+    const channel = new FakeDataChannel(label, options.id!);
+    this.channels.push(channel);
+    // The first channel adds the SCTP section to the session
+    if (this.channels.length === 1) {
+      queueMicrotask(() => this.onnegotiationneeded?.());
+    }
+    return channel;
+  }
+
+  async setLocalDescription() {
+    if (this.signalingState === "have-remote-offer") {
+      this.localDescription = { type: "answer", sdp: this.id };
+      this.signalingState = "stable";
+    } else {
+      this.localDescription = { type: "offer", sdp: this.id };
+      this.signalingState = "have-local-offer";
+    }
+    queueMicrotask(() => {
+      this.onicecandidate?.({
+        candidate: { candidate: `candidate:1 1 udp 2122260223 10.0.0.${this.network.created} 5000 typ host`, sdpMid: "0" },
+      });
+    });
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit) {
+    const remote = this.network.connections.get(description.sdp!);
+    if (!remote) throw new Error(`Unknown session ${description.sdp}`);
+
+    if (description.type === "offer") {
+      // Implicit rollback of our own offer, as browsers do for the polite side
+      this.remoteDescription = description;
+      this.signalingState = "have-remote-offer";
+    } else {
+      if (this.signalingState !== "have-local-offer") throw new Error("No offer to answer");
+      this.remoteDescription = description;
+      this.signalingState = "stable";
+      this.connect(remote);
+    }
+  }
+
+  async addIceCandidate(candidate: RTCIceCandidateInit) {
+    if (!this.remoteDescription) throw new Error("No remote description");
+    this.candidates.push(candidate);
+  }
+
+  setConfiguration() {}
+
+  restartIce() {}
+
+  close() {
+    if (this.connectionState === "closed") return;
+    this.connectionState = "closed";
+    this.signalingState = "closed";
+    this.channels.forEach((channel) => channel.close());
+  }
+
+  private connect(remote: FakePeerConnection) {
+    this.remote = remote;
+    remote.remote = this;
+    if (!this.network.reachable(this, remote)) return;
+
+    [this, remote].forEach((pc) => {
+      pc.sctp = { maxMessageSize: NEGOTIATED_MAX_MESSAGE_SIZE };
+      pc.connectionState = "connected";
+      pc.iceConnectionState = "connected";
+      queueMicrotask(() => {
+        pc.oniceconnectionstatechange?.();
+        pc.onconnectionstatechange?.();
+      });
+    });
+    this.channels.forEach((channel) => {
+      const remoteChannel = remote.channels.find((c) => c.id === channel.id);
+      if (remoteChannel) {
+        channel.open(remoteChannel);
+        remoteChannel.open(channel);
+      }
+    });
+  }
+}
@@ -0,0 +1,28 @@
+import { describe, it, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { JoinTokenIssuer } from "./ghost-auth";
+
+describe("JoinTokenIssuer", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("redeems a join token once, for the peer and account it was issued to", () => {
+    const issuer = new JoinTokenIssuer("secret");
+    const { token, peerId } = issuer.issue("alice");
+
+    assert.deepEqual(issuer.redeem(token), { peerId, userId: "alice" });
+    assert.equal(issuer.redeem(token), null);
+    assert.equal(new JoinTokenIssuer("other secret").redeem(issuer.issue("alice").token), null);
+  });
+
+  it("accepts a resume token until it expires", () => {
+    const issuer = new JoinTokenIssuer("secret");
+    const { resumeToken, peerId } = issuer.issue("alice");
+    assert.deepEqual(issuer.verifyResume(resumeToken), { peerId, userId: "alice" });
+
+    const now = Date.now();
+    mock.method(Date, "now", () => now + 12 * 60 * 60 * 1000);
+    assert.equal(issuer.verifyResume(resumeToken), null);
+  });
+});
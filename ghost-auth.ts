@@ -0,0 +1,139 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import type { GhostJoinToken } from "@shared/ghost-types";
+
+// Long enough to open the WebSocket right after fetching the token, short
+// enough that a leaked token is useless soon after
+const JOIN_TOKEN_TTL_MS = 30000;
+// The resume token is handed out at join time and used whenever the socket
+// drops later on, so it has to outlive a long session; past this a
+// reconnecting client simply starts over as a new peer
+const RESUME_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+interface JoinTokenPayload {
+  kind: "join";
+  peerId: string;
+  userId: string; // account the peer belongs to
+  nonce: string;
+  expiresAt: number;
+}
+
+// Proof of owning a peer id, handed out with every join token so a client
+// that loses its socket can ask for a new join token for the same id
+interface ResumeTokenPayload {
+  kind: "resume";
+  peerId: string;
+  userId: string;
+  expiresAt: number;
+}
+
+// Who a verified token was issued to
+export interface TokenOwner {
+  peerId: string;
+  userId: string;
+}
+
+// Issues and verifies the signed, single-use tokens that authorize a
+// /ghost WebSocket upgrade. The peer id inside the token is assigned here,
+// so a client can never pick (and impersonate) someone else's id.
+export class JoinTokenIssuer {
+  private secret: Buffer;
+  private usedNonces: Map<string, number> = new Map(); // nonce -> expiresAt
+
+  constructor(secret: string = process.env.GHOST_TOKEN_SECRET || process.env.SESSION_SECRET || "") {
+    this.secret = secret ? Buffer.from(secret) : randomBytes(32);
+  }
+
+  issue(userId: string, peerId: string = randomUUID(), ttlMs: number = JOIN_TOKEN_TTL_MS): GhostJoinToken {
+    const payload: JoinTokenPayload = {
+      kind: "join",
+      peerId,
+      userId,
+      nonce: randomBytes(12).toString("base64url"),
+      expiresAt: Date.now() + ttlMs,
+    };
+    return {
+      token: this.encode(payload),
+      peerId,
+      expiresAt: payload.expiresAt,
+      resumeToken: this.encode({
+        kind: "resume",
+        peerId,
+        userId,
+        expiresAt: Date.now() + RESUME_TOKEN_TTL_MS,
+      } satisfies ResumeTokenPayload),
+    };
+  }
+
+  // Returns whom a resume token was issued to, or null if invalid or expired.
+  // Whether the peer id can still be taken back is up to GhostNetwork.isResumable
+  verifyResume(resumeToken: string): TokenOwner | null {
+    const payload = this.decode(resumeToken);
+    if (!payload || payload.kind !== "resume") return null;
+    if (typeof payload.peerId !== "string" || typeof payload.userId !== "string") return null;
+    if (typeof payload.expiresAt !== "number" || payload.expiresAt <= Date.now()) return null;
+    return { peerId: payload.peerId, userId: payload.userId };
+  }
+
+  // Returns whom the token was issued to, or null if the token is
+  // malformed, tampered with, expired or already used
+  redeem(token: string): TokenOwner | null {
+    const payload = this.verify(token);
+    if (!payload || this.usedNonces.has(payload.nonce)) return null;
+
+    this.pruneNonces();
+    this.usedNonces.set(payload.nonce, payload.expiresAt);
+    return { peerId: payload.peerId, userId: payload.userId };
+  }
+
+  // Checks a token without consuming it
+  verify(token: string): JoinTokenPayload | null {
+    const payload = this.decode(token);
+    if (!payload || payload.kind !== "join") return null;
+    if (typeof payload.peerId !== "string" || typeof payload.userId !== "string") return null;
+    if (typeof payload.nonce !== "string") return null;
+    if (typeof payload.expiresAt !== "number" || payload.expiresAt <= Date.now()) return null;
+    return payload;
+  }
+
+  private encode(payload: JoinTokenPayload | ResumeTokenPayload): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+    return `${body}.${this.sign(body)}`;
+  }
+
+  private decode(token: string): any {
+    const [body, signature] = token.split(".");
+    if (!body || !signature) return null;
+
+    const expected = Buffer.from(this.sign(body));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    try {
+      return JSON.parse(Buffer.from(body, "base64url").toString());
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(body: string): string {
+    return createHmac("sha256", this.secret).update(body).digest("base64url");
+  }
+
+  private pruneNonces() {
+    const now = Date.now();
+    Array.from(this.usedNonces.entries()).forEach(([nonce, expiresAt]) => {
+      if (expiresAt <= now) {
+        this.usedNonces.delete(nonce);
+      }
+    });
+  }
+}
+
+let joinTokenIssuer: JoinTokenIssuer | null = null;
+
+export function getJoinTokenIssuer(): JoinTokenIssuer {
+  if (!joinTokenIssuer) {
+    joinTokenIssuer = new JoinTokenIssuer();
+  }
+  return joinTokenIssuer;
+}
@@ -0,0 +1,188 @@
+import { describe, it, before, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import type { CapabilityBenchmark } from "@shared/ghost-types";
+import { GHOST_PROTOCOL_VERSION } from "@shared/ghost-types";
+import { InMemorySignalingHub } from "./signaling-transport";
+import { FakeNetwork, NEGOTIATED_MAX_MESSAGE_SIZE } from "./fake-webrtc";
+import type { GhostClient as GhostClientType } from "./ghost-client";
+
+// Several GhostClients in one process: signaling goes through an
+// InMemorySignalingHub and WebRTC is replaced by the fakes of fake-webrtc.ts.
+
+const BENCHMARK: CapabilityBenchmark = {
+  wasmIntMops: 500,
+  wasmFloatMflops: 400,
+  fillRateMpixels: 0,
+  storageWriteMBps: 20,
+  downloadMbps: 50,
+  uploadMbps: 20,
+  measuredAt: 0,
+};
+
+async function until(condition: () => boolean, timeoutMs: number = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe("GhostClient", () => {
+  let GhostClient: typeof GhostClientType;
+  let clients: GhostClientType[] = [];
+
+  before(async () => {
+    // detectCapabilities() runs in the constructor, and ghost-client.ts
+    // creates its shared instance on import
+    Object.assign(globalThis, {
+      document: { createElement: () => ({ getContext: () => null }) },
+      navigator: {},
+    });
+    ({ GhostClient } = await import("./ghost-client"));
+  });
+
+  afterEach(() => {
+    clients.forEach((client) => client.disconnect());
+    clients = [];
+  });
+
+  async function connectClients(hub: InMemorySignalingHub, network: FakeNetwork, count: number) {
+    const created = Array.from({ length: count }, () =>
+      new GhostClient({
+        transport: hub.createTransport(),
+        peerConnectionFactory: network.createPeerConnection,
+        loadIceConfig: async () => ({ iceServers: [], lanOnly: false }),
+        benchmark: async () => BENCHMARK,
+      }),
+    );
+    clients.push(...created);
+    // One after the other, like tabs opened in turn
+    for (const client of created) {
+      await client.connect();
+    }
+    await until(() => created.every((client) => client.getDataChannelCount() >= count - 1));
+    return created;
+  }
+
+  it("opens one data channel per pair of peers", async () => {
+    const hub = new InMemorySignalingHub();
+    const network = new FakeNetwork();
+    const opened: string[] = [];
+    const client = new GhostClient({
+      transport: hub.createTransport(),
+      peerConnectionFactory: network.createPeerConnection,
+      loadIceConfig: async () => ({ iceServers: [], lanOnly: false }),
+      benchmark: async () => BENCHMARK,
+    });
+    clients.push(client);
+    client.on("channel-open", ({ peerId }) => opened.push(peerId));
+    await client.connect();
+
+    const [b, c] = await connectClients(hub, network, 2);
+    await until(() => opened.length === 2);
+
+    assert.deepEqual(opened.sort(), [b.getPeerId(), c.getPeerId()].sort());
+    [client, b, c].forEach((peer) => {
+      assert.equal(peer.getConnectedPeers().length, 2);
+      peer.getConnectedPeers().forEach(({ id }) => {
+        assert.equal(peer.getConnectionState(id), "connected");
+        assert.equal(peer.getProtocolVersion(id), GHOST_PROTOCOL_VERSION);
+      });
+    });
+    // Both sides of each pair offered at once; the glare left one connection each
+    assert.equal(network.openConnections().length, 6);
+  });
+
+  it("passes candidates to the other side", async () => {
+    const hub = new InMemorySignalingHub();
+    const network = new FakeNetwork();
+    await connectClients(hub, network, 2);
+
+    await until(() => network.openConnections().every((pc) => pc.candidates.length > 0));
+    network.openConnections().forEach((pc) => {
+      assert.ok(pc.candidates.every(({ candidate }) => / typ host$/.test(candidate!)));
+    });
+  });
+
+  it("delivers addressed messages to one peer and broadcasts to all", async () => {
+    const hub = new InMemorySignalingHub();
+    const network = new FakeNetwork();
+    const [a, b, c] = await connectClients(hub, network, 3);
+    const received: Map<string, any[]> = new Map();
+    [a, b, c].forEach((client) => {
+      received.set(client.getPeerId(), []);
+      client.on("data", ({ from, data }) => received.get(client.getPeerId())!.push({ from, data }));
+    });
+
+    a.sendToPeer(b.getPeerId(), { type: "render-request", frameId: 1, timestamp: 0 });
+    c.broadcast({ kind: "bundle-swarm", action: "manifest-request", gameId: "zelda" });
+    await until(() => received.get(b.getPeerId())!.length === 2 && received.get(a.getPeerId())!.length === 1);
+
+    assert.deepEqual(received.get(a.getPeerId()), [
+      { from: c.getPeerId(), data: { kind: "bundle-swarm", action: "manifest-request", gameId: "zelda" } },
+    ]);
+    assert.deepEqual(
+      received.get(b.getPeerId())!.map(({ from }) => from).sort(),
+      [a.getPeerId(), c.getPeerId()].sort(),
+    );
+    assert.deepEqual(received.get(c.getPeerId()), []);
+  });
+
+  it("drops control messages that do not match their schema", async (t) => {
+    const hub = new InMemorySignalingHub();
+    const network = new FakeNetwork();
+    const [a, b] = await connectClients(hub, network, 2);
+    const warn = t.mock.method(console, "warn", () => {});
+    const received: any[] = [];
+    b.on("data", ({ data }) => received.push(data));
+
+    a.sendToPeer(b.getPeerId(), { kind: "bundle-swarm", action: "have", gameId: "zelda", gameName: "Zelda", bitmap: "A" });
+    a.sendToPeer(b.getPeerId(), { kind: "bundle-swarm", action: "manifest", manifest: { bundles: [] } });
+    a.sendToPeer(b.getPeerId(), { kind: "bundle-transfer", action: "request", bundleId: "b1", offset: -1 });
+    a.sendToPeer(b.getPeerId(), { kind: "bundle-have", bundleIds: [] });
+    a.sendToPeer(b.getPeerId(), { kind: "bundle-transfer", action: "cancel", bundleId: "b1" });
+    await until(() => received.length === 1);
+
+    assert.deepEqual(received, [{ kind: "bundle-transfer", action: "cancel", bundleId: "b1" }]);
+    assert.equal(warn.mock.callCount(), 4);
+  });
+
+  it("uses the max-message-size negotiated over SCTP", async () => {
+    const hub = new InMemorySignalingHub();
+    const network = new FakeNetwork();
+    const [a, b] = await connectClients(hub, network, 2);
+
+    assert.equal(a.getMaxMessageSize(b.getPeerId()), NEGOTIATED_MAX_MESSAGE_SIZE);
+    // No connection at all: the RFC 8841 default
+    assert.equal(a.getMaxMessageSize("unknown"), 64 * 1024);
+  });
+
+  it("closes the channels of a peer that leaves", async () => {
+    const hub = new InMemorySignalingHub();
+    const network = new FakeNetwork();
+    const [a, b, c] = await connectClients(hub, network, 3);
+    const closed: string[] = [];
+    [a, b].forEach((client) => client.on("channel-close", ({ peerId }) => closed.push(peerId)));
+
+    c.disconnect();
+    await until(() => a.getConnectedPeers().length === 1 && b.getConnectedPeers().length === 1);
+
+    assert.deepEqual(closed, [c.getPeerId(), c.getPeerId()]);
+    assert.equal(a.getDataChannelCount(), 1);
+    assert.ok(a.getDataChannel(b.getPeerId()));
+    assert.equal(a.getDataChannel(c.getPeerId()), undefined);
+    assert.equal(network.openConnections().length, 2);
+  });
+
+  it("connects to a peer that joins later", async () => {
+    const hub = new InMemorySignalingHub();
+    const network = new FakeNetwork();
+    const [a, b] = await connectClients(hub, network, 2);
+
+    const [c] = await connectClients(hub, network, 1);
+    await until(() => [a, b, c].every((client) => client.getDataChannelCount() === 2));
+
+    assert.deepEqual(hub.getPeerIds().sort(), [a, b, c].map((client) => client.getPeerId()).sort());
+    assert.equal(network.openConnections().length, 6);
+  });
+});
@@ -1,19 +1,92 @@
-import type { GhostPeer, PeerCapabilities, GhostBundle, GhostNetworkStats } from "@shared/ghost-types";
+import type {
+  GhostPeer,
+  PeerCapabilities,
+  GhostBundle,
+  GhostNetworkStats,
+  GhostRoomInfo,
+  GhostIceConfig,
+  PeerMessage,
+  CapabilityBenchmark,
+} from "@shared/ghost-types";
+import {
+  GHOST_PROTOCOL_VERSION,
+  GHOST_MIN_PROTOCOL_VERSION,
+  peerMessageSchema,
+  peerControlMessageSchema,
+  negotiateProtocolVersion,
+} from "@shared/ghost-types";
+import { apiRequest } from "@/lib/queryClient";
+import { WebSocketSignalingTransport, type SignalingTransport } from "./signaling-transport";
+import { runCapabilityBenchmarks, applyBenchmark } from "./capability-benchmark";
 
 type MessageHandler = (message: any) => void;
 
+// ICE restarts tried on a failed connection before it is torn down and rebuilt
+const MAX_ICE_RESTARTS = 3;
+const RECONNECT_DELAY_MS = 2000;
+// A peer that has not said hello by then speaks no protocol we know
+const HELLO_TIMEOUT_MS = 10000;
+// max-message-size assumed when the remote description does not announce one (RFC 8841)
+const DEFAULT_MAX_MESSAGE_SIZE = 64 * 1024;
+
+// Per-peer offer/answer bookkeeping ("perfect negotiation"): both sides may
+// send an offer at the same time, the polite one yields
+interface Negotiation {
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  pendingCandidates: RTCIceCandidateInit[]; // received before the remote description
+  iceRestarts: number;
+}
+
+// "candidate:<foundation> <component> <protocol> <priority> <address> <port> typ host ..."
+function isHostCandidate(candidate: string): boolean {
+  return / typ host( |$)/.test(candidate);
+}
+
+export interface GhostClientOptions {
+  transport?: SignalingTransport;
+  // Lets tests and non-browser runs supply their own WebRTC implementation
+  peerConnectionFactory?: (config: RTCConfiguration) => RTCPeerConnection;
+  loadIceConfig?: () => Promise<GhostIceConfig>;
+  benchmark?: () => Promise<CapabilityBenchmark>;
+}
+
+async function fetchIceConfig(): Promise<GhostIceConfig> {
+  const res = await apiRequest("GET", "/api/ghost/ice-config");
+  return res.json();
+}
+
 export class GhostClient {
-  private ws: WebSocket | null = null;
+  private transport: SignalingTransport;
+  private peerConnectionFactory: (config: RTCConfiguration) => RTCPeerConnection;
+  private loadIceConfig: () => Promise<GhostIceConfig>;
+  private benchmark: () => Promise<CapabilityBenchmark>;
+  private benchmarked: Promise<void> | null = null;
   private peerId: string;
   private peerName: string;
   private capabilities: PeerCapabilities;
   private peerConnections: Map<string, RTCPeerConnection> = new Map();
-  private dataChannels: Map<string, RTCDataChannel> = new Map();
+  private dataChannels: Map<string, RTCDataChannel> = new Map(); // handshake done
+  private helloTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private protocolVersions: Map<string, number> = new Map();
+  private incompatiblePeers: Set<string> = new Set();
+  private negotiations: Map<string, Negotiation> = new Map();
+  private connectionStates: Map<string, RTCPeerConnectionState> = new Map();
   private messageHandlers: Map<string, MessageHandler[]> = new Map();
   private connectedPeers: GhostPeer[] = [];
+  // The next peer-list is the whole room rather than a newcomer's announcement
+  private awaitingRoomList: boolean = false;
+  private currentRoom: GhostRoomInfo | null = null;
+  private iceConfig: GhostIceConfig = { iceServers: [], lanOnly: false };
   private isConnected: boolean = false;
 
-  constructor() {
+  constructor(options: GhostClientOptions = {}) {
+    this.transport = options.transport ?? new WebSocketSignalingTransport();
+    this.peerConnectionFactory = options.peerConnectionFactory ?? ((config) => new RTCPeerConnection(config));
+    this.loadIceConfig = options.loadIceConfig ?? fetchIceConfig;
+    this.benchmark = options.benchmark ?? runCapabilityBenchmarks;
+    // Placeholder until connect(); the WebSocket transport gets one from the server
     this.peerId = this.generatePeerId();
     this.peerName = `Browser-${this.peerId.slice(0, 6)}`;
     this.capabilities = this.detectCapabilities();
@@ -39,71 +112,90 @@ export class GhostClient {
     };
   }
 
-  connect(): Promise<void> {
-    if (this.isConnected && this.ws?.readyState === WebSocket.OPEN) {
-      return Promise.resolve();
+  // Measured once per page, before the first join, so the capabilities the
+  // room sees are the benchmarked ones
+  private runBenchmarks(): Promise<void> {
+    if (!this.benchmarked) {
+      this.benchmarked = this.benchmark()
+        .then((benchmark) => {
+          this.capabilities = applyBenchmark(this.capabilities, benchmark);
+          this.emit("capabilities-updated", this.capabilities);
+        })
+        .catch((error) => console.error("Capability benchmark failed:", error));
     }
+    return this.benchmarked;
+  }
 
-    return new Promise((resolve, reject) => {
-      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-      const wsUrl = `${protocol}//${window.location.host}/ghost`;
-
-      // Se já houver uma conexão tentando, não abra outra
-      if (this.ws) {
-        this.ws.close();
-      }
-
-      this.ws = new WebSocket(wsUrl);
+  // Picks up a changed LAN-only setting: existing connections switch servers
+  // and gather candidates again under the new policy
+  async refreshIceConfig(): Promise<void> {
+    this.iceConfig = await this.loadIceConfig();
+    this.peerConnections.forEach((pc) => {
+      pc.setConfiguration(this.rtcConfiguration());
+      pc.restartIce();
+    });
+  }
 
-      this.ws.onopen = () => {
-        this.isConnected = true;
-        this.sendJoin();
-        resolve();
-      };
+  async connect(): Promise<void> {
+    if (this.isConnected && this.transport.isOpen()) {
+      return;
+    }
 
-      this.ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          this.handleMessage(message);
-        } catch (error) {
-          console.error("Failed to parse message:", error);
-        }
-      };
+    this.iceConfig = await this.loadIceConfig();
+    await this.runBenchmarks();
+
+    this.transport.onmessage = (message) => this.handleMessage(message);
+    this.transport.onclose = () => {
+      const wasConnected = this.isConnected;
+      this.isConnected = false;
+      this.emit("disconnected", {});
+
+      // Reconectar rapidamente para P2P agressivo
+      if (wasConnected) {
+        console.log("Auto-reconnecting to Ghost Network...");
+        setTimeout(() => {
+          this.connect().catch((error) => console.error("Ghost Network reconnect failed:", error));
+        }, 1000);
+      }
+    };
 
-      this.ws.onerror = (error) => {
-        console.error("WebSocket error:", error);
-        reject(error);
-      };
+    const peerId = await this.transport.open(this.peerId);
+    if (peerId !== this.peerId) {
+      // Too late to resume: the room mates already dropped the old id
+      Array.from(this.peerConnections.keys()).forEach((id) => this.closePeerConnection(id));
+      this.connectedPeers = [];
+      this.currentRoom = null;
+    }
+    this.peerId = peerId;
+    this.peerName = `Browser-${this.peerId.slice(0, 6)}`;
 
-      this.ws.onclose = () => {
-        const wasConnected = this.isConnected;
-        this.isConnected = false;
-        this.ws = null;
-        this.emit("disconnected", {});
-        
-        // Reconectar rapidamente para P2P agressivo
-        if (wasConnected) {
-          console.log("Auto-reconnecting to Ghost Network...");
-          setTimeout(() => this.connect(), 1000);
-        }
-      };
-    });
+    this.isConnected = true;
+    this.sendJoin();
   }
 
   disconnect() {
-    if (this.ws) {
+    if (this.transport.isOpen()) {
       this.send({ type: "leave", peerId: this.peerId });
-      this.ws.close();
-      this.ws = null;
+      // Leaving on purpose: the next connect starts as a new peer
+      this.transport.close(true);
+      this.emit("disconnected", {});
     }
 
     Array.from(this.peerConnections.values()).forEach((pc) => pc.close());
     this.peerConnections.clear();
     this.dataChannels.clear();
+    this.helloTimers.forEach((timer) => clearTimeout(timer));
+    this.helloTimers.clear();
+    this.protocolVersions.clear();
+    this.incompatiblePeers.clear();
+    this.negotiations.clear();
+    this.connectionStates.clear();
+    this.currentRoom = null;
     this.isConnected = false;
   }
 
   private sendJoin() {
+    this.awaitingRoomList = true;
     this.send({
       type: "join",
       peerId: this.peerId,
@@ -113,20 +205,37 @@ export class GhostClient {
   }
 
   private send(message: any) {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
-    }
+    this.transport.send(message);
   }
 
   private handleMessage(message: any) {
     switch (message.type) {
-      case "peer-list":
-        this.connectedPeers = message.peers;
+      case "peer-list": {
+        const peers: GhostPeer[] = message.peers;
+        if (this.awaitingRoomList) {
+          // Whoever is not in the room list left while we were away
+          this.awaitingRoomList = false;
+          this.connectedPeers
+            .filter((p) => !peers.some((peer) => peer.id === p.id))
+            .forEach((p) => this.closePeerConnection(p.id));
+          this.connectedPeers = peers;
+        } else {
+          // Room mates only get the newcomer, the rest of the room stays
+          peers.forEach((peer) => {
+            const index = this.connectedPeers.findIndex((p) => p.id === peer.id);
+            if (index === -1) {
+              this.connectedPeers.push(peer);
+            } else {
+              this.connectedPeers[index] = peer;
+            }
+          });
+        }
         this.emit("peers-updated", this.connectedPeers);
-        message.peers.forEach((peer: GhostPeer) => {
+        peers.forEach((peer) => {
           this.createPeerConnection(peer.id, true);
         });
         break;
+      }
 
       case "peer-joined":
         if (!this.connectedPeers.find((p) => p.id === message.peer.id)) {
@@ -137,6 +246,7 @@ export class GhostClient {
 
       case "peer-left":
         this.connectedPeers = this.connectedPeers.filter((p) => p.id !== message.peerId);
+        this.incompatiblePeers.delete(message.peerId);
         this.closePeerConnection(message.peerId);
         this.emit("peers-updated", this.connectedPeers);
         break;
@@ -164,28 +274,70 @@ export class GhostClient {
       case "state-sync":
         this.emit("state-sync", message);
         break;
+
+      case "room-joined":
+        if (this.currentRoom && this.currentRoom.id !== message.room.id) {
+          // Peers of the previous room are out of reach now; the server
+          // follows up with the peer list of the new one
+          Array.from(this.peerConnections.keys()).forEach((peerId) => this.closePeerConnection(peerId));
+          this.connectedPeers = [];
+          this.awaitingRoomList = true;
+          this.emit("peers-updated", this.connectedPeers);
+        }
+        this.currentRoom = message.room;
+        this.emit("room-joined", message.room);
+        break;
+
+      case "room-updated":
+        this.currentRoom = message.room;
+        this.emit("room-updated", message.room);
+        break;
+
+      case "room-error":
+        this.emit("room-error", message);
+        break;
     }
   }
 
-  private async createPeerConnection(remotePeerId: string, isInitiator: boolean) {
-    if (this.peerConnections.has(remotePeerId)) return;
+  private getNegotiation(remotePeerId: string): Negotiation {
+    let negotiation = this.negotiations.get(remotePeerId);
+    if (!negotiation) {
+      negotiation = {
+        // Any fixed order works as long as both sides agree on it
+        polite: this.peerId < remotePeerId,
+        makingOffer: false,
+        ignoreOffer: false,
+        pendingCandidates: [],
+        iceRestarts: 0,
+      };
+      this.negotiations.set(remotePeerId, negotiation);
+    }
+    return negotiation;
+  }
 
-    // Configuração ICE otimizada para rede local/WiFi
-    const config: RTCConfiguration = {
-      iceServers: [
-        { urls: "stun:stun.l.google.com:19302" },
-        { urls: "stun:stun1.l.google.com:19302" },
-      ],
-      // Força o uso de candidatos host (rede local) primeiro
+  // ICE servers come from the server (see ice-config.ts); in LAN-only mode
+  // there are none and only host candidates are exchanged
+  private rtcConfiguration(): RTCConfiguration {
+    return {
+      iceServers: this.iceConfig.iceServers,
       iceTransportPolicy: "all",
       bundlePolicy: "max-bundle",
     };
+  }
 
-    const pc = new RTCPeerConnection(config);
+  private acceptsCandidate(candidate: string): boolean {
+    return !this.iceConfig.lanOnly || isHostCandidate(candidate);
+  }
+
+  private createPeerConnection(remotePeerId: string, isInitiator: boolean) {
+    if (this.peerConnections.has(remotePeerId) || this.incompatiblePeers.has(remotePeerId)) return;
+
+    const pc = this.peerConnectionFactory(this.rtcConfiguration());
     this.peerConnections.set(remotePeerId, pc);
+    const negotiation = this.getNegotiation(remotePeerId);
 
     pc.onicecandidate = (event) => {
-      if (event.candidate) {
+      if (event.candidate && this.acceptsCandidate(event.candidate.candidate)) {
         this.send({
           type: "ice-candidate",
           from: this.peerId,
@@ -195,67 +347,220 @@ export class GhostClient {
       }
     };
 
-    pc.ondatachannel = (event) => {
-      this.setupDataChannel(remotePeerId, event.channel);
-    };
-
-    if (isInitiator) {
-      const channel = pc.createDataChannel("ghost-data");
-      this.setupDataChannel(remotePeerId, channel);
-
+    pc.onnegotiationneeded = async () => {
+      // The side that did not start the connection only answers
+      if (!isInitiator && !pc.remoteDescription) return;
       try {
-        const offer = await pc.createOffer();
-        await pc.setLocalDescription(offer);
+        negotiation.makingOffer = true;
+        await pc.setLocalDescription();
         this.send({
           type: "offer",
           from: this.peerId,
           to: remotePeerId,
-          sdp: JSON.stringify(offer),
+          sdp: JSON.stringify(pc.localDescription),
         });
       } catch (error) {
         console.error("Failed to create offer:", error);
+      } finally {
+        negotiation.makingOffer = false;
+      }
+    };
+
+    pc.oniceconnectionstatechange = () => {
+      if (pc.iceConnectionState === "failed") {
+        this.handleIceFailure(remotePeerId, pc);
       }
+    };
+
+    pc.onconnectionstatechange = () => {
+      this.connectionStates.set(remotePeerId, pc.connectionState);
+      this.emit("connection-state", { peerId: remotePeerId, state: pc.connectionState });
+      if (pc.connectionState === "connected") {
+        negotiation.iceRestarts = 0;
+      }
+    };
+
+    // Both sides create the same pre-negotiated channel, so an offer from
+    // either side (or from both, see handleOffer) ends up with one channel
+    const channel = pc.createDataChannel("ghost-data", { negotiated: true, id: 0 });
+    this.setupDataChannel(remotePeerId, channel);
+  }
+
+  private handleIceFailure(remotePeerId: string, pc: RTCPeerConnection) {
+    const negotiation = this.getNegotiation(remotePeerId);
+
+    if (negotiation.iceRestarts < MAX_ICE_RESTARTS) {
+      negotiation.iceRestarts++;
+      console.log(`ICE failed with ${remotePeerId}, restarting (attempt ${negotiation.iceRestarts})`);
+      // Triggers negotiationneeded with fresh ICE credentials
+      pc.restartIce();
+      return;
     }
+
+    // Restarts did not help: start over with a brand new connection if the
+    // peer is still around
+    console.log(`Giving up on connection with ${remotePeerId}, reconnecting`);
+    this.closePeerConnection(remotePeerId);
+    setTimeout(() => {
+      if (this.connectedPeers.some((p) => p.id === remotePeerId)) {
+        this.createPeerConnection(remotePeerId, true);
+      }
+    }, RECONNECT_DELAY_MS);
   }
 
   private setupDataChannel(remotePeerId: string, channel: RTCDataChannel) {
+    // Bundle chunks arrive as binary frames, see bundle-transfer.ts
+    channel.binaryType = "arraybuffer";
+
+    // The channel is only handed out (and "channel-open" emitted) once both
+    // sides agreed on a protocol version
     channel.onopen = () => {
       console.log(`Data channel opened with ${remotePeerId}`);
-      this.dataChannels.set(remotePeerId, channel);
-      this.emit("channel-open", { peerId: remotePeerId });
+      this.sendPeerMessage(channel, {
+        type: "hello",
+        version: GHOST_PROTOCOL_VERSION,
+        minVersion: GHOST_MIN_PROTOCOL_VERSION,
+      });
+      this.helloTimers.set(remotePeerId, setTimeout(() => {
+        this.rejectPeer(remotePeerId, channel, null, "No protocol handshake");
+      }, HELLO_TIMEOUT_MS));
     };
 
     channel.onclose = () => {
       console.log(`Data channel closed with ${remotePeerId}`);
-      this.dataChannels.delete(remotePeerId);
-      this.emit("channel-close", { peerId: remotePeerId });
+      this.clearHelloTimer(remotePeerId);
+      this.protocolVersions.delete(remotePeerId);
+      if (this.dataChannels.get(remotePeerId) === channel) {
+        this.dataChannels.delete(remotePeerId);
+        this.emit("channel-close", { peerId: remotePeerId });
+      }
     };
 
     channel.onmessage = (event) => {
+      const ready = this.dataChannels.get(remotePeerId) === channel;
+
+      if (typeof event.data !== "string") {
+        if (ready) {
+          this.emit("binary-data", { from: remotePeerId, data: event.data });
+        }
+        return;
+      }
+
+      let data: any;
       try {
-        const data = JSON.parse(event.data);
-        this.emit("data", { from: remotePeerId, data });
+        data = JSON.parse(event.data);
       } catch {
-        this.emit("binary-data", { from: remotePeerId, data: event.data });
+        console.warn(`Dropping malformed message from ${remotePeerId}`);
+        return;
+      }
+
+      // Control messages of bundle-transfer.ts and bundle-swarm.ts are
+      // keyed by "kind" instead of "type"
+      if (typeof data?.type !== "string") {
+        if (!ready) return;
+        const control = peerControlMessageSchema.safeParse(data);
+        if (!control.success) {
+          console.warn(`Dropping invalid "${data?.kind}" control message from ${remotePeerId}`);
+          return;
+        }
+        this.emit("data", { from: remotePeerId, data: control.data });
+        return;
+      }
+
+      const result = peerMessageSchema.safeParse(data);
+      if (!result.success) {
+        console.warn(`Dropping invalid "${data.type}" message from ${remotePeerId}`);
+        return;
+      }
+      const message = result.data;
+
+      if (message.type === "hello") {
+        this.handleHello(remotePeerId, channel, message.version, message.minVersion);
+      } else if (message.type === "hello-reject") {
+        console.warn(`Peer ${remotePeerId} rejected us: ${message.reason}`);
+        this.markIncompatible(remotePeerId, message.version, message.reason);
+      } else if (ready) {
+        this.emit("data", { from: remotePeerId, data: message });
       }
     };
   }
 
+  private handleHello(remotePeerId: string, channel: RTCDataChannel, version: number, minVersion: number) {
+    const negotiated = negotiateProtocolVersion(version, minVersion);
+    if (negotiated === null) {
+      this.rejectPeer(
+        remotePeerId,
+        channel,
+        version,
+        `Protocol ${version} (min ${minVersion}) is incompatible with ${GHOST_PROTOCOL_VERSION} (min ${GHOST_MIN_PROTOCOL_VERSION})`,
+      );
+      return;
+    }
+
+    this.clearHelloTimer(remotePeerId);
+    this.protocolVersions.set(remotePeerId, negotiated);
+    if (this.dataChannels.get(remotePeerId) !== channel) {
+      this.dataChannels.set(remotePeerId, channel);
+      this.emit("channel-open", { peerId: remotePeerId, protocolVersion: negotiated });
+    }
+  }
+
+  // Tells the peer why before hanging up, so it does not keep retrying
+  private rejectPeer(remotePeerId: string, channel: RTCDataChannel, version: number | null, reason: string) {
+    console.warn(`Rejecting peer ${remotePeerId}: ${reason}`);
+    this.sendPeerMessage(channel, {
+      type: "hello-reject",
+      version: GHOST_PROTOCOL_VERSION,
+      minVersion: GHOST_MIN_PROTOCOL_VERSION,
+      reason,
+    });
+    this.markIncompatible(remotePeerId, version, reason);
+  }
+
+  private markIncompatible(remotePeerId: string, version: number | null, reason: string) {
+    this.incompatiblePeers.add(remotePeerId);
+    this.emit("peer-incompatible", { peerId: remotePeerId, version, reason });
+    // Let the reject message go out before the connection is torn down
+    setTimeout(() => this.closePeerConnection(remotePeerId), 0);
+  }
+
+  private clearHelloTimer(remotePeerId: string) {
+    const timer = this.helloTimers.get(remotePeerId);
+    if (timer) {
+      clearTimeout(timer);
+      this.helloTimers.delete(remotePeerId);
+    }
+  }
+
+  private sendPeerMessage(channel: RTCDataChannel, message: PeerMessage) {
+    if (channel.readyState === "open") {
+      channel.send(JSON.stringify(message));
+    }
+  }
+
   private async handleOffer(message: any) {
-    await this.createPeerConnection(message.from, false);
+    this.createPeerConnection(message.from, false);
     const pc = this.peerConnections.get(message.from);
     if (!pc) return;
+    const negotiation = this.getNegotiation(message.from);
 
     try {
       const offer = JSON.parse(message.sdp);
-      await pc.setRemoteDescription(new RTCSessionDescription(offer));
-      const answer = await pc.createAnswer();
-      await pc.setLocalDescription(answer);
+      const collision = negotiation.makingOffer || pc.signalingState !== "stable";
+
+      // Glare: both sides offered. The impolite side keeps its own offer and
+      // waits for the answer; the polite side drops its offer and answers
+      negotiation.ignoreOffer = !negotiation.polite && collision;
+      if (negotiation.ignoreOffer) return;
+
+      await pc.setRemoteDescription(offer);
+      await this.flushPendingCandidates(message.from, pc);
+      await pc.setLocalDescription();
       this.send({
         type: "answer",
         from: this.peerId,
         to: message.from,
-        sdp: JSON.stringify(answer),
+        sdp: JSON.stringify(pc.localDescription),
       });
     } catch (error) {
       console.error("Failed to handle offer:", error);
@@ -266,34 +571,58 @@ export class GhostClient {
     const pc = this.peerConnections.get(message.from);
     if (!pc) return;
 
+    // An answer to an offer we already rolled back
+    if (pc.signalingState !== "have-local-offer") return;
+
     try {
       const answer = JSON.parse(message.sdp);
-      await pc.setRemoteDescription(new RTCSessionDescription(answer));
+      await pc.setRemoteDescription(answer);
+      await this.flushPendingCandidates(message.from, pc);
     } catch (error) {
       console.error("Failed to handle answer:", error);
     }
   }
 
   private async handleIceCandidate(message: any) {
+    if (!message.candidate) return;
+
+    const negotiation = this.getNegotiation(message.from);
+    const candidateData: RTCIceCandidateInit = typeof message.candidate === 'string' 
+      ? JSON.parse(message.candidate) 
+      : message.candidate;
+
+    // A peer that is not LAN-only may still offer reflexive or relay candidates
+    if (candidateData.candidate && !this.acceptsCandidate(candidateData.candidate)) return;
+
     const pc = this.peerConnections.get(message.from);
-    if (!pc) return;
+    // Candidates can overtake the offer's processing: keep them until the
+    // remote description is in place
+    if (!pc || !pc.remoteDescription) {
+      negotiation.pendingCandidates.push(candidateData);
+      return;
+    }
 
     try {
-      if (!message.candidate) return;
-      
-      const candidateData = typeof message.candidate === 'string' 
-        ? JSON.parse(message.candidate) 
-        : message.candidate;
-      
-      // Só adiciona se o estado da conexão permitir
-      if (pc.remoteDescription && pc.remoteDescription.type) {
-        await pc.addIceCandidate(new RTCIceCandidate(candidateData));
-      } else {
-        // Armazena candidatos se o descritor remoto ainda não estiver pronto
-        console.log("Remote description not ready, candidate will be handled later if supported by browser");
-      }
+      await pc.addIceCandidate(candidateData);
     } catch (error) {
-      console.error("Failed to add ICE candidate:", error);
+      // Candidates of an offer we ignored during glare are expected to fail
+      if (!negotiation.ignoreOffer) {
+        console.error("Failed to add ICE candidate:", error);
+      }
+    }
+  }
+
+  private async flushPendingCandidates(remotePeerId: string, pc: RTCPeerConnection) {
+    const negotiation = this.getNegotiation(remotePeerId);
+    const candidates = negotiation.pendingCandidates;
+    negotiation.pendingCandidates = [];
+
+    for (const candidate of candidates) {
+      try {
+        await pc.addIceCandidate(candidate);
+      } catch (error) {
+        console.error("Failed to add queued ICE candidate:", error);
+      }
     }
   }
 
@@ -303,7 +632,15 @@ export class GhostClient {
       pc.close();
       this.peerConnections.delete(peerId);
     }
-    this.dataChannels.delete(peerId);
+    if (this.dataChannels.delete(peerId)) {
+      this.emit("channel-close", { peerId });
+    }
+    this.clearHelloTimer(peerId);
+    this.protocolVersions.delete(peerId);
+    this.negotiations.delete(peerId);
+    if (this.connectionStates.delete(peerId)) {
+      this.emit("connection-state", { peerId, state: "closed" });
+    }
   }
 
   sendToPeer(peerId: string, data: any) {
@@ -322,11 +659,24 @@ export class GhostClient {
     });
   }
 
-  requestBundle(bundleId: string) {
+  requestBundle(bundleId: string, gameId?: string) {
     this.send({
       type: "bundle-request",
       bundleId,
       from: this.peerId,
+      gameId,
+    });
+  }
+
+  // Answers a bundle-request through the signaling server
+  sendBundle(to: string, bundleId: string, data: string, gameId?: string, totalBundles?: number) {
+    this.send({
+      type: "bundle-response",
+      bundleId,
+      to,
+      data,
+      gameId,
+      totalBundles,
     });
   }
 
@@ -339,6 +689,34 @@ export class GhostClient {
     });
   }
 
+  createRoom(name: string, password?: string, maxPeers?: number) {
+    this.send({
+      type: "room-create",
+      name,
+      password: password || undefined,
+      maxPeers,
+    });
+  }
+
+  joinRoom(roomId: string, password?: string) {
+    this.send({
+      type: "room-join",
+      roomId,
+      password: password || undefined,
+    });
+  }
+
+  leaveRoom() {
+    this.send({ type: "room-leave" });
+  }
+
+  reportStats(fps: number) {
+    this.send({
+      type: "stats-report",
+      fps,
+    });
+  }
+
   on(event: string, handler: MessageHandler) {
     if (!this.messageHandlers.has(event)) {
       this.messageHandlers.set(event, []);
@@ -379,6 +757,34 @@ export class GhostClient {
     return this.connectedPeers;
   }
 
+  getCurrentRoom(): GhostRoomInfo | null {
+    return this.currentRoom;
+  }
+
+  getConnectionState(peerId: string): RTCPeerConnectionState | undefined {
+    return this.connectionStates.get(peerId);
+  }
+
+  getDataChannel(peerId: string): RTCDataChannel | undefined {
+    const channel = this.dataChannels.get(peerId);
+    return channel?.readyState === "open" ? channel : undefined;
+  }
+
+  // Largest message the data channel to this peer takes in one send, as
+  // negotiated over SCTP
+  getMaxMessageSize(peerId: string): number {
+    const maxMessageSize = this.peerConnections.get(peerId)?.sctp?.maxMessageSize;
+    return maxMessageSize || DEFAULT_MAX_MESSAGE_SIZE;
+  }
+
+  getProtocolVersion(peerId: string): number | undefined {
+    return this.protocolVersions.get(peerId);
+  }
+
+  getIncompatiblePeers(): string[] {
+    return Array.from(this.incompatiblePeers);
+  }
+
   getDataChannelCount(): number {
     return this.dataChannels.size;
   }
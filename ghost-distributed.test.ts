@@ -0,0 +1,169 @@
+import { describe, it, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import type { CapabilityBenchmark } from "@shared/ghost-types";
+import { InMemorySignalingHub } from "./signaling-transport";
+import { FakeNetwork } from "./fake-webrtc";
+import { ComputePool } from "./compute-pool";
+import { DeviceStatusMonitor } from "./device-status";
+import type { GhostClient as GhostClientType } from "./ghost-client";
+import type { GhostDistributed as GhostDistributedType } from "./ghost-distributed";
+
+// A room of GhostDistributed instances, each with its own GhostClient, over
+// an InMemorySignalingHub and the fake WebRTC of fake-webrtc.ts. Elections
+// run on real timers, so these tests take a few seconds each.
+
+const BENCHMARK: CapabilityBenchmark = {
+  wasmIntMops: 500,
+  wasmFloatMflops: 400,
+  fillRateMpixels: 0,
+  storageWriteMBps: 20,
+  downloadMbps: 50,
+  uploadMbps: 20,
+  measuredAt: 0,
+};
+const ELECTION_WAIT_MS = 10000;
+
+interface Device {
+  name: string; // owner of its connections in the FakeNetwork
+  client: GhostClientType;
+  distributed: GhostDistributedType;
+}
+
+async function until(condition: () => boolean, timeoutMs: number = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe("GhostDistributed", () => {
+  let GhostClient: typeof GhostClientType;
+  let GhostDistributed: typeof GhostDistributedType;
+  let shared: GhostDistributedType;
+  let devices: Device[] = [];
+
+  before(async () => {
+    // See ghost-client.test.ts
+    Object.assign(globalThis, {
+      document: { createElement: () => ({ getContext: () => null }) },
+      navigator: {},
+    });
+    ({ GhostClient } = await import("./ghost-client"));
+    let ghostDistributed: GhostDistributedType;
+    ({ GhostDistributed, ghostDistributed } = await import("./ghost-distributed"));
+    shared = ghostDistributed;
+  });
+
+  after(() => {
+    shared.destroy();
+  });
+
+  afterEach(() => {
+    devices.forEach(({ client, distributed }) => {
+      distributed.destroy();
+      client.disconnect();
+    });
+    devices = [];
+  });
+
+  async function startRoom(names: string[]): Promise<{ network: FakeNetwork; room: Device[] }> {
+    const hub = new InMemorySignalingHub();
+    const network = new FakeNetwork();
+    const room: Device[] = [];
+    for (const name of names) {
+      const client = new GhostClient({
+        transport: hub.createTransport(),
+        peerConnectionFactory: network.peerConnectionFactory(name),
+        loadIceConfig: async () => ({ iceServers: [], lanOnly: false }),
+        benchmark: async () => BENCHMARK,
+      });
+      const distributed = new GhostDistributed(client, new ComputePool(1), new DeviceStatusMonitor());
+      const device = { name, client, distributed };
+      devices.push(device);
+      room.push(device);
+      await distributed.initialize();
+      distributed.start();
+    }
+    await until(() => room.every(({ client }) => client.getDataChannelCount() === names.length - 1));
+    return { network, room };
+  }
+
+  function agreedMaster(room: Device[]): string | null {
+    const masters = new Set(room.map(({ distributed }) => distributed.getMasterPeerId()));
+    return masters.size === 1 ? Array.from(masters)[0] : null;
+  }
+
+  it("lets go of a master cut off on the minority side", async () => {
+    const { network, room } = await startRoom(["a", "b", "c"]);
+    await until(() => agreedMaster(room) !== null, ELECTION_WAIT_MS);
+
+    const master = room.find(({ client }) => client.getPeerId() === agreedMaster(room))!;
+    const others = room.filter((device) => device !== master);
+    assert.equal(master.distributed.isMaster(), true);
+    const lost: string[] = [];
+    master.distributed.on("master-lost", ({ masterId }) => lost.push(masterId));
+
+    network.partition([master.name], others.map(({ name }) => name));
+    await until(() => {
+      const next = agreedMaster(others);
+      return !master.distributed.isMaster() && next !== null && next !== master.client.getPeerId();
+    }, ELECTION_WAIT_MS);
+
+    const masterId = master.client.getPeerId();
+    assert.equal(master.distributed.getMasterPeerId(), null);
+    assert.equal(master.distributed.getMetrics().masterDevice, null);
+    assert.notEqual(master.distributed.getRolePlan()[masterId], "master");
+    assert.deepEqual(lost, [masterId]);
+
+    const next = agreedMaster(others)!;
+    others.forEach(({ distributed }) => {
+      assert.equal(distributed.getMetrics().masterDevice, next);
+      assert.notEqual(distributed.getRolePlan()[masterId], "master");
+    });
+  });
+
+  it("elects a master, runs a task on another device and moves it when that device leaves", async () => {
+    const { room } = await startRoom(["a", "b", "c"]);
+    await until(() => agreedMaster(room) !== null, ELECTION_WAIT_MS);
+    const [requester, ...workers] = room;
+
+    // The first device to get the task holds on to it until cancelled
+    let holder: string | null = null;
+    workers.forEach(({ client, distributed }) => {
+      distributed.registerTaskHandler("render", async (_data, _task, signal) => {
+        if (holder === null) {
+          holder = client.getPeerId();
+          await new Promise((resolve) => signal.addEventListener("abort", resolve));
+          throw new Error("Cancelled");
+        }
+        return { result: { ranOn: client.getPeerId() } };
+      });
+    });
+    const migrated: string[] = [];
+    requester.distributed.on("task-migrated", ({ peerId }) => migrated.push(peerId));
+    const timeouts: string[] = [];
+    requester.distributed.on("task-timeout", ({ peerId }) => timeouts.push(peerId));
+
+    const result = requester.distributed.runTask({
+      id: "frame-1",
+      type: "render",
+      data: new Uint8Array([1, 2, 3]).buffer,
+      timestamp: Date.now(),
+      deadlineMs: ELECTION_WAIT_MS,
+    });
+    await until(() => holder !== null);
+    const leaving = workers.find(({ client }) => client.getPeerId() === holder)!;
+    const remaining = workers.find((device) => device !== leaving)!;
+    leaving.distributed.destroy();
+    leaving.client.disconnect();
+
+    const { from, result: output, attempts } = await result;
+    assert.equal(from, remaining.client.getPeerId());
+    assert.deepEqual(output, { ranOn: remaining.client.getPeerId() });
+    assert.equal(attempts, 2);
+    assert.deepEqual(migrated, [holder]);
+    assert.deepEqual(timeouts, []);
+    assert.equal(requester.distributed.getMetrics().tasksCompleted, 1);
+  });
+});
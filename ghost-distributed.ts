@@ -1,15 +1,82 @@
-import { ghostClient } from "./ghost-client";
-import type { GhostPeer, PeerCapabilities } from "@shared/ghost-types";
+import { ghostClient, type GhostClient } from "./ghost-client";
+import type { GhostPeer, PeerCapabilities, PeerMessage } from "@shared/ghost-types";
+import { LatencyTracker, preciseNow, type LatencyStats } from "./latency-tracker";
+import { MasterElection, type ElectionMessage, type ElectionState } from "./master-election";
+import { computePool, type ComputePool } from "./compute-pool";
+import { COMPUTE_TASK_TYPES } from "./compute-kernels";
+import { RoleRebalancer, type RolePlanEntry } from "./role-rebalancer";
+import { deviceStatus, type DeviceStatusMonitor, type DevicePowerStatus } from "./device-status";
+
+// Round trips are probed continuously, not just when a channel opens
+const LATENCY_PROBE_INTERVAL_MS = 2000;
+// Assumed until the first probe to a peer comes back
+const DEFAULT_LATENCY_MS = 50;
+// Election messages are only understood from this data channel protocol on
+const ELECTION_PROTOCOL_VERSION = 3;
+// Earlier peers answer task-assign with a fake result without running anything
+const TASK_PROTOCOL_VERSION = 4;
+
+// How long a device gets to return a result before the task moves on
+const DEFAULT_TASK_DEADLINE_MS = 5000;
+const DEFAULT_TASK_ATTEMPTS = 3;
+const COMPLETED_TASKS_KEPT = 100;
+
+// Benchmark results (see capability-benchmark.ts) that earn full points
+const REFERENCE_FILL_RATE_MPIXELS = 2000;
+const REFERENCE_COMPUTE_MOPS = 1000;
+// ...and the least a device must measure to be suggested for a role
+const MASTER_MIN_FILL_RATE_MPIXELS = 500;
+const COMPUTE_MIN_MOPS = 200;
+const STORAGE_MIN_MBPS = 5;
+
+// Measurements arrive every probe interval from every peer; the role plan is
+// recomputed once they settle instead of after each one
+const REBALANCE_DEBOUNCE_MS = 500;
+
+function encodePayload(data: ArrayBuffer | null): string | null {
+  if (!data) return null;
+  const bytes = new Uint8Array(data);
+  let binary = "";
+  // In slices, spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+function decodePayload(encoded: string | null | undefined): ArrayBuffer | null {
+  if (!encoded) return null;
+  return Uint8Array.from(atob(encoded), (c) => c.charCodeAt(0)).buffer;
+}
 
 export type DeviceRole = "master" | "compute" | "storage" | "display";
 
+// When a device is spared by the scheduler. Battery levels only apply while
+// unplugged; devices that do not report a battery count as plugged in.
+export interface SchedulingThresholds {
+  minBatteryLevel: number; // percent; below it the device gets no tasks and no role
+  lowBatteryLevel: number; // percent; below it the device scores lower and cannot be master
+  maxLoad: number; // compute pool load from which the device gets no tasks
+  maxCpuLoad: number; // main thread load (0..1) from which the device gets no tasks
+}
+
+const DEFAULT_SCHEDULING_THRESHOLDS: SchedulingThresholds = {
+  minBatteryLevel: 15,
+  lowBatteryLevel: 30,
+  maxLoad: 2,
+  maxCpuLoad: 0.9,
+};
+
 export interface DeviceScore {
   peerId: string;
   peerName: string;
   score: number;
   capabilities: PeerCapabilities;
   suggestedRole: DeviceRole;
-  latency: number;
+  latency: number; // rolling mean round trip, in ms
+  latencyStats: LatencyStats | null; // null for ourselves and unprobed peers
+  load: number; // compute pool load as last reported, see ComputePool.getLoad
+  power: DevicePowerStatus | null; // null until the device reports it
 }
 
 export interface DistributedTask {
@@ -17,6 +84,41 @@ export interface DistributedTask {
   type: "render" | "physics" | "audio" | "texture" | "input";
   data: ArrayBuffer | null;
   timestamp: number;
+  deadlineMs?: number; // per attempt, DEFAULT_TASK_DEADLINE_MS if unset
+  maxAttempts?: number; // devices to try before giving up
+}
+
+export interface TaskResult {
+  taskId: string;
+  from: string; // device that ran it, possibly ourselves
+  result: Record<string, any>;
+  data: ArrayBuffer | null;
+  attempts: number;
+  completedAt: number;
+}
+
+// Runs a task of one type on this device. Return JSON-safe fields in
+// `result` and binary output in `data`; throwing fails the attempt. The
+// signal aborts once the requester no longer waits for the result.
+export type TaskHandler = (
+  data: ArrayBuffer | null,
+  task: { id: string; type: string; timestamp: number },
+  signal: AbortSignal,
+) => Promise<{ result?: Record<string, any>; data?: ArrayBuffer | null }>;
+
+interface PendingTask {
+  task: DistributedTask;
+  peerId: string | null; // device running the current attempt
+  attempts: number;
+  triedPeers: Set<string>;
+  timer: ReturnType<typeof setTimeout> | null;
+  localRun: AbortController | null; // set while running on this device
+  // The payload travels base64-encoded inside one data channel message, so
+  // only devices whose channel takes a message this large can run the task
+  assign: Extract<PeerMessage, { type: "task-assign" }>;
+  assignBytes: number;
+  resolve: (result: TaskResult) => void;
+  reject: (error: Error) => void;
 }
 
 export interface DistributedMetrics {
@@ -25,8 +127,10 @@ export interface DistributedMetrics {
   avgLatency: number;
   totalBandwidth: number;
   framesProcessed: number;
-  tasksDistributed: number;
-  failedTasks: number;
+  tasksDistributed: number; // tasks handed to a device, retries not counted
+  tasksCompleted: number;
+  tasksRetried: number; // attempts beyond the first
+  failedTasks: number; // tasks that ran out of attempts or devices
 }
 
 type DistributedEventHandler = (event: any) => void;
@@ -35,10 +139,17 @@ export class GhostDistributed {
   private myRole: DeviceRole = "display";
   private masterPeerId: string | null = null;
   private deviceScores: Map<string, DeviceScore> = new Map();
-  private pendingTasks: Map<string, DistributedTask> = new Map();
-  private completedTasks: Map<string, any> = new Map();
+  private pendingTasks: Map<string, PendingTask> = new Map();
+  private completedTasks: Map<string, TaskResult> = new Map();
+  private taskHandlers: Map<string, TaskHandler> = new Map();
+  private runningTasks: Map<string, AbortController> = new Map(); // `${requester}:${taskId}`
   private eventHandlers: Map<string, DistributedEventHandler[]> = new Map();
-  private latencyTests: Map<string, number[]> = new Map();
+  private latency: LatencyTracker = new LatencyTracker();
+  private latencyProbeInterval: NodeJS.Timeout | null = null;
+  private election: MasterElection;
+  private rebalancer: RoleRebalancer<DeviceScore>;
+  private thresholds: SchedulingThresholds = { ...DEFAULT_SCHEDULING_THRESHOLDS };
+  private rebalanceTimer: ReturnType<typeof setTimeout> | null = null;
   private isRunning: boolean = false;
   private wifiDiscoveryInterval: NodeJS.Timeout | null = null;
   private p2pBroadcastInterval: NodeJS.Timeout | null = null;
@@ -50,12 +161,48 @@ export class GhostDistributed {
     totalBandwidth: 0,
     framesProcessed: 0,
     tasksDistributed: 0,
+    tasksCompleted: 0,
+    tasksRetried: 0,
     failedTasks: 0,
   };
 
-  constructor() {
+  constructor(
+    private client: GhostClient = ghostClient,
+    private pool: ComputePool = computePool,
+    private status: DeviceStatusMonitor = deviceStatus,
+  ) {
+    // Compute-heavy task types run on the worker pool, off the render loop
+    COMPUTE_TASK_TYPES.forEach((type) => {
+      this.registerTaskHandler(type, (data, _task, signal) => this.pool.run(type, data, signal));
+    });
+
+    this.election = new MasterElection(
+      {
+        getPeerId: () => this.client.getPeerId(),
+        broadcast: (message) => this.broadcastElection(message),
+      },
+      () => this.electionScore(),
+    );
+    this.rebalancer = new RoleRebalancer<DeviceScore>(
+      (device, score) => this.suggestRole(device.capabilities, score, device.power),
+    );
+    this.status.start();
     this.setupEventListeners();
     this.startWiFiDiscovery();
+    this.startLatencyProbing();
+  }
+
+  private startLatencyProbing() {
+    if (this.latencyProbeInterval) clearInterval(this.latencyProbeInterval);
+
+    this.latencyProbeInterval = setInterval(() => {
+      this.refreshOwnScore();
+      this.client.getConnectedPeers().forEach((peer) => {
+        if (this.client.getDataChannel(peer.id)) {
+          this.measureLatency(peer.id);
+        }
+      });
+    }, LATENCY_PROBE_INTERVAL_MS);
   }
 
   private startWiFiDiscovery() {
@@ -87,9 +234,9 @@ export class GhostDistributed {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            peerId: ghostClient.getPeerId(),
-            peerName: ghostClient.getPeerName(),
-            capabilities: ghostClient.getCapabilities(),
+            peerId: this.client.getPeerId(),
+            peerName: this.client.getPeerName(),
+            capabilities: this.client.getCapabilities(),
           }),
         });
       } catch (e) {
@@ -99,170 +246,364 @@ export class GhostDistributed {
   }
 
   private setupEventListeners() {
-    ghostClient.on("peers-updated", (peers: GhostPeer[]) => {
+    this.client.on("peers-updated", (peers: GhostPeer[]) => {
       this.updateDeviceScores(peers);
     });
 
-    ghostClient.on("data", ({ from, data }: { from: string; data: any }) => {
+    // GhostClient has already validated these against peerMessageSchema
+    this.client.on("data", ({ from, data }: { from: string; data: PeerMessage }) => {
       this.handlePeerMessage(from, data);
     });
 
-    ghostClient.on("channel-open", ({ peerId }: { peerId: string }) => {
+    this.client.on("channel-open", ({ peerId }: { peerId: string }) => {
+      const version = this.client.getProtocolVersion(peerId);
+      if (version !== undefined && version < ELECTION_PROTOCOL_VERSION) {
+        this.election.removeMember(peerId);
+      }
       this.measureLatency(peerId);
     });
+
+    this.client.on("peer-incompatible", ({ peerId }: { peerId: string }) => {
+      this.election.removeMember(peerId);
+    });
+
+    this.client.on("channel-close", ({ peerId }: { peerId: string }) => {
+      this.latency.forget(peerId);
+      this.election.disconnectMember(peerId);
+      this.migrateTasks(peerId);
+    });
+
+    this.election.on("master-elected", ({ masterId, term }: { masterId: string; term: number }) => {
+      this.applyMaster(masterId, term);
+    });
+
+    this.election.on("master-lost", ({ masterId, term }: { masterId: string; term: number }) => {
+      this.clearMaster(masterId, term);
+    });
   }
 
   async initialize(): Promise<void> {
-    if (!ghostClient.getIsConnected()) {
-      await ghostClient.connect();
+    if (!this.client.getIsConnected()) {
+      await this.client.connect();
     }
     
-    const myCapabilities = ghostClient.getCapabilities();
-    const myScore = this.calculateDeviceScore(myCapabilities, 0);
+    const myCapabilities = this.client.getCapabilities();
+    const myLoad = this.pool.getLoad();
+    const myPower = this.status.getStatus();
+    const myScore = this.calculateDeviceScore(myCapabilities, 0, myLoad, myPower);
     
-    this.deviceScores.set(ghostClient.getPeerId(), {
-      peerId: ghostClient.getPeerId(),
-      peerName: ghostClient.getPeerName(),
+    this.deviceScores.set(this.client.getPeerId(), {
+      peerId: this.client.getPeerId(),
+      peerName: this.client.getPeerName(),
       score: myScore,
       capabilities: myCapabilities,
-      suggestedRole: this.suggestRole(myCapabilities, myScore),
+      suggestedRole: this.suggestRole(myCapabilities, myScore, myPower),
       latency: 0,
+      latencyStats: null,
+      load: myLoad,
+      power: myPower,
     });
 
+    this.election.start();
+    this.rebalance();
     this.emit("initialized", { myScore, myCapabilities });
   }
 
-  private calculateDeviceScore(capabilities: PeerCapabilities, latency: number): number {
+  // Our own entry follows the pool's load like the peers' entries do
+  private refreshOwnScore() {
+    const own = this.deviceScores.get(this.client.getPeerId());
+    if (!own) return;
+    own.load = this.pool.getLoad();
+    own.power = this.status.getStatus();
+    this.rescore(own);
+
+    // A master running out of battery hands over to whoever ranks first now
+    if (this.isMaster() && this.batteryState(own.power) !== "ok" && this.election.stepDown()) {
+      this.emit("master-stepped-down", { batteryLevel: own.power.batteryLevel });
+    }
+    this.scheduleRebalance();
+  }
+
+  private rescore(device: DeviceScore) {
+    device.score = this.calculateDeviceScore(device.capabilities, device.latency, device.load, device.power);
+    device.suggestedRole = this.suggestRole(device.capabilities, device.score, device.power);
+  }
+
+  // "critical" devices get no work at all, "low" ones cannot be master
+  private batteryState(power: DevicePowerStatus | null): "ok" | "low" | "critical" {
+    if (!power || power.batteryLevel === null || power.charging) return "ok";
+    if (power.batteryLevel < this.thresholds.minBatteryLevel) return "critical";
+    if (power.batteryLevel < this.thresholds.lowBatteryLevel) return "low";
+    return "ok";
+  }
+
+  // Devices the scheduler hands no tasks to, whatever their score
+  private isSpared(device: DeviceScore): boolean {
+    if (this.batteryState(device.power) === "critical") return true;
+    if (device.load >= this.thresholds.maxLoad) return true;
+    return (device.power?.cpuLoad ?? 0) >= this.thresholds.maxCpuLoad;
+  }
+
+  private calculateDeviceScore(
+    capabilities: PeerCapabilities,
+    latency: number,
+    load: number = 0,
+    power: DevicePowerStatus | null = null,
+  ): number {
     let score = 0;
-    
-    if (capabilities.hasGPU) score += 40;
-    if (capabilities.hasWASM) score += 20;
-    if (capabilities.canRender) score += 20;
-    if (capabilities.canCompute) score += 10;
+    const benchmark = capabilities.benchmark;
+
+    if (benchmark) {
+      // Graded by what was measured instead of what is merely available
+      const computeMops = Math.min(benchmark.wasmIntMops, benchmark.wasmFloatMflops);
+      score += Math.min(benchmark.fillRateMpixels / REFERENCE_FILL_RATE_MPIXELS, 1) * 60;
+      score += Math.min(computeMops / REFERENCE_COMPUTE_MOPS, 1) * 30;
+    } else {
+      if (capabilities.hasGPU) score += 40;
+      if (capabilities.hasWASM) score += 20;
+      if (capabilities.canRender) score += 20;
+      if (capabilities.canCompute) score += 10;
+    }
     
     score += Math.min(capabilities.maxMemory / 1024, 10);
     score += Math.min(capabilities.bandwidth / 10, 10);
     
     score -= Math.min(latency / 10, 20);
+    // Busy devices get fewer tasks: a full pool costs 20 points, a backlog up to 30
+    score -= Math.min(load * 20, 30);
+
+    if (power) {
+      // Up to 30 points off as an unplugged battery drains below the low mark
+      if (this.batteryState(power) !== "ok") {
+        score -= (1 - power.batteryLevel! / this.thresholds.lowBatteryLevel) * 30;
+      }
+      score -= power.cpuLoad * 20;
+    }
     
     return Math.max(0, Math.round(score));
   }
 
-  private suggestRole(capabilities: PeerCapabilities, score: number): DeviceRole {
-    if (score >= 70 && capabilities.hasGPU && capabilities.canRender) {
+  // Peers without a benchmark (older clients) are judged by their flags alone
+  private suggestRole(capabilities: PeerCapabilities, score: number, power: DevicePowerStatus | null = null): DeviceRole {
+    const battery = this.batteryState(power);
+    if (battery === "critical") return "display";
+
+    const benchmark = capabilities.benchmark;
+    const fastGPU = !benchmark || benchmark.fillRateMpixels >= MASTER_MIN_FILL_RATE_MPIXELS;
+    const fastCompute = !benchmark
+      || Math.min(benchmark.wasmIntMops, benchmark.wasmFloatMflops) >= COMPUTE_MIN_MOPS;
+    const fastStorage = !benchmark || benchmark.storageWriteMBps >= STORAGE_MIN_MBPS;
+
+    if (score >= 70 && capabilities.hasGPU && capabilities.canRender && fastGPU && battery === "ok") {
       return "master";
     }
-    if (score >= 50 && capabilities.hasWASM && capabilities.canCompute) {
+    if (score >= 50 && capabilities.hasWASM && capabilities.canCompute && fastCompute) {
       return "compute";
     }
-    if (score >= 30 && capabilities.canStore) {
+    if (score >= 30 && capabilities.canStore && fastStorage) {
       return "storage";
     }
     return "display";
   }
 
+  // The peer list is the whole room: new peers are scored, known ones
+  // rescored with what they announce now, and missing ones dropped
   private updateDeviceScores(peers: GhostPeer[]) {
+    const myPeerId = this.client.getPeerId();
+    const present = new Set(peers.map((peer) => peer.id));
+
+    Array.from(this.deviceScores.keys())
+      .filter((peerId) => peerId !== myPeerId && !present.has(peerId))
+      .forEach((peerId) => {
+        this.deviceScores.delete(peerId);
+        this.latency.forget(peerId);
+        this.migrateTasks(peerId);
+      });
+    // Peers that speak an older protocol never vote; the others count
+    // towards a majority whether their channel is up or not
+    const voters = peers.filter((peer) => {
+      if (this.client.getIncompatiblePeers().includes(peer.id)) return false;
+      const version = this.client.getProtocolVersion(peer.id);
+      return version === undefined || version >= ELECTION_PROTOCOL_VERSION;
+    });
+    this.election.setMembership(voters.map((peer) => peer.id));
+
     for (const peer of peers) {
-      if (!this.deviceScores.has(peer.id)) {
-        const latency = this.latencyTests.get(peer.id)?.[0] || 50;
-        const score = this.calculateDeviceScore(peer.capabilities, latency);
-        
-        this.deviceScores.set(peer.id, {
-          peerId: peer.id,
-          peerName: peer.name,
-          score,
-          capabilities: peer.capabilities,
-          suggestedRole: this.suggestRole(peer.capabilities, score),
-          latency,
-        });
+      const known = this.deviceScores.get(peer.id);
+      if (known) {
+        known.peerName = peer.name;
+        known.capabilities = peer.capabilities;
+        this.rescore(known);
+        continue;
       }
+
+      const latencyStats = this.latency.getStats(peer.id);
+      const latency = latencyStats?.mean ?? DEFAULT_LATENCY_MS;
+      const score = this.calculateDeviceScore(peer.capabilities, latency);
+
+      this.deviceScores.set(peer.id, {
+        peerId: peer.id,
+        peerName: peer.name,
+        score,
+        capabilities: peer.capabilities,
+        suggestedRole: this.suggestRole(peer.capabilities, score),
+        latency,
+        latencyStats,
+        load: 0,
+        power: null,
+      });
     }
-    
-    this.electMaster();
-    this.metrics.totalDevices = this.deviceScores.size;
+
+    this.updateAverageLatency();
+    this.rebalance();
     this.emit("scores-updated", Array.from(this.deviceScores.values()));
   }
 
-  private electMaster() {
-    let bestScore = -1;
-    let bestPeerId: string | null = null;
+  // Tasks running on a device that left go to the next device right away
+  // instead of waiting out their deadline
+  private migrateTasks(peerId: string) {
+    Array.from(this.pendingTasks.values())
+      .filter((pending) => pending.peerId === peerId)
+      .forEach((pending) => {
+        this.emit("task-migrated", { taskId: pending.task.id, peerId });
+        this.retryTask(pending);
+      });
+  }
+
+  private scheduleRebalance() {
+    if (this.rebalanceTimer) return;
+    this.rebalanceTimer = setTimeout(() => this.rebalance(), REBALANCE_DEBOUNCE_MS);
+  }
 
-    for (const [peerId, deviceScore] of Array.from(this.deviceScores.entries())) {
-      if (deviceScore.score > bestScore && deviceScore.suggestedRole === "master") {
-        bestScore = deviceScore.score;
-        bestPeerId = peerId;
-      }
+  // Recomputes who does what from the current scores and the elected master,
+  // and reports the differences with the previous plan
+  private rebalance() {
+    if (this.rebalanceTimer) {
+      clearTimeout(this.rebalanceTimer);
+      this.rebalanceTimer = null;
     }
 
-    if (!bestPeerId) {
-      for (const [peerId, deviceScore] of Array.from(this.deviceScores.entries())) {
-        if (deviceScore.score > bestScore) {
-          bestScore = deviceScore.score;
-          bestPeerId = peerId;
-        }
+    const devices = Array.from(this.deviceScores.values());
+    this.metrics.totalDevices = devices.length;
+    const entry = this.rebalancer.update(devices, this.masterPeerId);
+
+    if (entry) {
+      this.emit("role-plan-changed", entry);
+      const myRole = entry.plan[this.client.getPeerId()];
+      if (myRole && myRole !== this.myRole) {
+        this.myRole = myRole;
+        this.emit("role-changed", { role: myRole, isMaster: myRole === "master" });
       }
     }
+  }
 
-    if (bestPeerId && bestPeerId !== this.masterPeerId) {
-      this.masterPeerId = bestPeerId;
-      this.metrics.masterDevice = bestPeerId;
-      
-      if (bestPeerId === ghostClient.getPeerId()) {
-        this.myRole = "master";
-        this.emit("role-changed", { role: "master", isMaster: true });
-      } else {
-        const myDevice = this.deviceScores.get(ghostClient.getPeerId());
-        this.myRole = myDevice?.suggestedRole || "display";
-        this.emit("role-changed", { role: this.myRole, isMaster: false });
+  // Our own score as we announce it in the election. Latency is left out, as
+  // every peer measures it differently, and master-capable devices come first.
+  private electionScore(): number {
+    const capabilities = this.client.getCapabilities();
+    const power = this.status.getStatus();
+    const score = this.calculateDeviceScore(capabilities, 0, 0, power);
+    return this.suggestRole(capabilities, score, power) === "master" ? score + 100 : score;
+  }
+
+  private broadcastElection(message: ElectionMessage) {
+    this.client.getConnectedPeers().forEach((peer) => {
+      const version = this.client.getProtocolVersion(peer.id);
+      if (version !== undefined && version >= ELECTION_PROTOCOL_VERSION) {
+        this.send(peer.id, message);
       }
-      
-      this.emit("master-elected", { masterId: bestPeerId });
-    }
+    });
   }
 
-  private async measureLatency(peerId: string) {
-    const startTime = performance.now();
-    
-    ghostClient.sendToPeer(peerId, {
+  // The election only reports changes, so the same peer elected again in a
+  // later term (after a loss in between) is applied again too
+  private applyMaster(masterId: string, term: number) {
+    this.masterPeerId = masterId;
+    this.metrics.masterDevice = masterId;
+    this.rebalance();
+    this.emit("master-elected", { masterId, term });
+  }
+
+  // Nobody is master until the next election: render requests stop going
+  // to the old one and the role plan no longer counts it as master
+  private clearMaster(masterId: string, term: number) {
+    this.masterPeerId = null;
+    this.metrics.masterDevice = null;
+    this.rebalance();
+    this.emit("master-lost", { masterId, term });
+  }
+
+  private measureLatency(peerId: string) {
+    this.send(peerId, {
       type: "latency-ping",
-      timestamp: startTime,
-      from: ghostClient.getPeerId(),
+      timestamp: preciseNow(),
+      from: this.client.getPeerId(),
     });
   }
 
-  private handlePeerMessage(from: string, data: any) {
+  private send(peerId: string, message: PeerMessage) {
+    this.client.sendToPeer(peerId, message);
+  }
+
+  private handlePeerMessage(from: string, data: PeerMessage) {
     switch (data.type) {
-      case "latency-ping":
-        ghostClient.sendToPeer(from, {
+      case "latency-ping": {
+        const receivedAt = preciseNow();
+        const power = this.status.getStatus();
+        this.send(from, {
           type: "latency-pong",
           originalTimestamp: data.timestamp,
-          from: ghostClient.getPeerId(),
+          from: this.client.getPeerId(),
+          receivedAt,
+          sentAt: preciseNow(),
+          load: this.pool.getLoad(),
+          batteryLevel: power.batteryLevel,
+          charging: power.charging,
+          cpuLoad: power.cpuLoad,
         });
         break;
+      }
+
+      case "latency-pong": {
+        const sample = this.latency.record(from, data.originalTimestamp, preciseNow(), data.receivedAt, data.sentAt);
+        const stats = this.latency.getStats(from)!;
 
-      case "latency-pong":
-        const latency = performance.now() - data.originalTimestamp;
-        if (!this.latencyTests.has(from)) {
-          this.latencyTests.set(from, []);
-        }
-        this.latencyTests.get(from)!.push(latency);
-        
         const deviceScore = this.deviceScores.get(from);
         if (deviceScore) {
-          deviceScore.latency = latency;
-          deviceScore.score = this.calculateDeviceScore(deviceScore.capabilities, latency);
+          deviceScore.latency = stats.mean;
+          deviceScore.latencyStats = stats;
+          deviceScore.load = data.load ?? 0;
+          if (data.cpuLoad !== undefined) {
+            deviceScore.power = {
+              batteryLevel: data.batteryLevel ?? null,
+              charging: data.charging ?? null,
+              cpuLoad: data.cpuLoad,
+            };
+          }
+          this.rescore(deviceScore);
+          this.scheduleRebalance();
         }
-        
+
         this.updateAverageLatency();
-        this.emit("latency-measured", { peerId: from, latency });
+        this.emit("latency-measured", { peerId: from, latency: sample.rtt, stats });
+        break;
+      }
+
+      case "election-heartbeat":
+      case "election-vote":
+        this.election.handleMessage(from, data);
         break;
 
       case "task-assign":
-        this.handleTaskAssignment(data.task);
+        this.handleTaskAssignment(from, data);
         break;
 
       case "task-result":
-        this.handleTaskResult(from, data.taskId, data.result);
+        this.handleTaskResult(from, data);
+        break;
+
+      case "task-cancel":
+        this.runningTasks.get(`${from}:${data.taskId}`)?.abort();
         break;
 
       case "frame-data":
@@ -281,9 +622,10 @@ export class GhostDistributed {
     let total = 0;
     let count = 0;
     
-    for (const latencies of Array.from(this.latencyTests.values())) {
-      if (latencies.length > 0) {
-        total += latencies[latencies.length - 1];
+    for (const peerId of Array.from(this.deviceScores.keys())) {
+      const stats = this.latency.getStats(peerId);
+      if (stats) {
+        total += stats.mean;
         count++;
       }
     }
@@ -291,38 +633,177 @@ export class GhostDistributed {
     this.metrics.avgLatency = count > 0 ? total / count : 0;
   }
 
+  registerTaskHandler(type: string, handler: TaskHandler) {
+    this.taskHandlers.set(type, handler);
+  }
+
+  unregisterTaskHandler(type: string) {
+    this.taskHandlers.delete(type);
+  }
+
+  // Fire and forget: false if the task could not be handed to any device
   distributeTask(task: DistributedTask): boolean {
     if (!this.isRunning) return false;
+    this.runTask(task).catch(() => {
+      // Counted in failedTasks and reported through "task-failed"
+    });
+    return this.pendingTasks.has(task.id);
+  }
 
-    const targetDevice = this.findBestDeviceForTask(task.type);
-    
-    if (!targetDevice) {
-      this.metrics.failedTasks++;
-      return false;
-    }
-
-    this.pendingTasks.set(task.id, task);
-    
-    ghostClient.sendToPeer(targetDevice.peerId, {
+  // Runs the task on the best other device, moving on to the next one when a
+  // device misses the deadline or reports an error. Without any other device
+  // it runs here, if a handler for its type is registered.
+  runTask(task: DistributedTask): Promise<TaskResult> {
+    const assign: Extract<PeerMessage, { type: "task-assign" }> = {
       type: "task-assign",
       task: {
         id: task.id,
         type: task.type,
         dataSize: task.data?.byteLength || 0,
         timestamp: task.timestamp,
+        deadlineMs: task.deadlineMs ?? DEFAULT_TASK_DEADLINE_MS,
       },
+      data: encodePayload(task.data),
+    };
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingTask = {
+        task,
+        peerId: null,
+        attempts: 0,
+        triedPeers: new Set(),
+        timer: null,
+        localRun: null,
+        assign,
+        assignBytes: new TextEncoder().encode(JSON.stringify(assign)).byteLength,
+        resolve,
+        reject,
+      };
+      this.pendingTasks.set(task.id, pending);
+      this.dispatchTask(pending);
     });
+  }
+
+  private dispatchTask(pending: PendingTask) {
+    const { task } = pending;
+    const maxAttempts = task.maxAttempts ?? DEFAULT_TASK_ATTEMPTS;
+    const target = pending.attempts < maxAttempts
+      ? this.findBestDeviceForTask(task.type, pending.triedPeers, pending.assignBytes)
+      : null;
+
+    if (!target) {
+      if (pending.attempts === 0 && this.taskHandlers.has(task.type)) {
+        this.runTaskLocally(pending);
+        return;
+      }
+      this.failTask(pending, pending.attempts === 0 ? "No device available" : "All attempts failed");
+      return;
+    }
 
+    if (pending.attempts === 0) {
+      this.metrics.tasksDistributed++;
+    } else {
+      this.metrics.tasksRetried++;
+    }
+    pending.attempts++;
+    pending.peerId = target.peerId;
+    pending.triedPeers.add(target.peerId);
+
+    try {
+      this.send(target.peerId, pending.assign);
+    } catch (error) {
+      // The channel closed or refused the message: that device is out for
+      // this task, the next one gets the attempt
+      this.emit("task-error", {
+        taskId: task.id,
+        peerId: target.peerId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      pending.peerId = null;
+      this.dispatchTask(pending);
+      return;
+    }
+
+    pending.timer = setTimeout(() => {
+      this.emit("task-timeout", { taskId: task.id, peerId: target.peerId, attempt: pending.attempts });
+      this.retryTask(pending);
+    }, pending.assign.task.deadlineMs);
+  }
+
+  private async runTaskLocally(pending: PendingTask) {
+    const { task } = pending;
+    pending.attempts++;
+    pending.peerId = this.client.getPeerId();
     this.metrics.tasksDistributed++;
-    return true;
+    pending.localRun = new AbortController();
+
+    try {
+      const output = await this.taskHandlers.get(task.type)!(task.data, task, pending.localRun.signal);
+      if (!this.pendingTasks.has(task.id)) return; // stopped meanwhile
+      this.completeTask(pending, this.client.getPeerId(), output.result || {}, output.data ?? null);
+    } catch (error) {
+      if (!this.pendingTasks.has(task.id)) return;
+      this.failTask(pending, error instanceof Error ? error.message : String(error));
+    }
   }
 
-  private findBestDeviceForTask(taskType: string): DeviceScore | null {
+  private retryTask(pending: PendingTask) {
+    if (pending.timer) {
+      clearTimeout(pending.timer);
+      pending.timer = null;
+    }
+    // Free the device that missed the deadline from work nobody waits for
+    if (pending.peerId) {
+      this.send(pending.peerId, { type: "task-cancel", taskId: pending.task.id });
+    }
+    pending.peerId = null;
+    this.dispatchTask(pending);
+  }
+
+  private completeTask(pending: PendingTask, from: string, result: Record<string, any>, data: ArrayBuffer | null) {
+    if (pending.timer) clearTimeout(pending.timer);
+    this.pendingTasks.delete(pending.task.id);
+
+    const taskResult: TaskResult = {
+      taskId: pending.task.id,
+      from,
+      result,
+      data,
+      attempts: pending.attempts,
+      completedAt: Date.now(),
+    };
+    this.completedTasks.set(taskResult.taskId, taskResult);
+    if (this.completedTasks.size > COMPLETED_TASKS_KEPT) {
+      this.completedTasks.delete(this.completedTasks.keys().next().value!);
+    }
+
+    this.metrics.tasksCompleted++;
+    this.emit("task-completed", { taskId: taskResult.taskId, result, from });
+    pending.resolve(taskResult);
+  }
+
+  private failTask(pending: PendingTask, reason: string) {
+    if (pending.timer) clearTimeout(pending.timer);
+    this.pendingTasks.delete(pending.task.id);
+    this.metrics.failedTasks++;
+    this.emit("task-failed", { taskId: pending.task.id, reason, attempts: pending.attempts });
+    pending.reject(new Error(reason));
+  }
+
+  private findBestDeviceForTask(
+    taskType: string,
+    exclude: Set<string> = new Set(),
+    messageBytes = 0,
+  ): DeviceScore | null {
     let bestDevice: DeviceScore | null = null;
-    let bestScore = -1;
+    let bestScore = -Infinity;
 
     for (const device of Array.from(this.deviceScores.values())) {
-      if (device.peerId === ghostClient.getPeerId()) continue;
+      if (device.peerId === this.client.getPeerId() || exclude.has(device.peerId)) continue;
+      const version = this.client.getProtocolVersion(device.peerId);
+      if (version === undefined || version < TASK_PROTOCOL_VERSION) continue;
+      if (this.isSpared(device)) continue;
+      if (this.client.getMaxMessageSize(device.peerId) < messageBytes) continue;
       
       let suitability = device.score;
       
@@ -357,31 +838,63 @@ export class GhostDistributed {
     return bestDevice;
   }
 
-  private handleTaskAssignment(task: any) {
+  // Runs a task for another device and answers only that device
+  private async handleTaskAssignment(from: string, message: Extract<PeerMessage, { type: "task-assign" }>) {
+    const { task } = message;
     this.emit("task-received", task);
-    
-    setTimeout(() => {
-      ghostClient.broadcast({
+
+    const handler = this.taskHandlers.get(task.type);
+    if (!handler) {
+      this.send(from, { type: "task-result", taskId: task.id, result: {}, ok: false, error: `No handler for ${task.type}` });
+      return;
+    }
+
+    const key = `${from}:${task.id}`;
+    const controller = new AbortController();
+    this.runningTasks.set(key, controller);
+
+    try {
+      const output = await handler(decodePayload(message.data), task, controller.signal);
+      this.send(from, {
         type: "task-result",
         taskId: task.id,
-        result: { processed: true, deviceId: ghostClient.getPeerId() },
+        result: output.result || {},
+        ok: true,
+        data: encodePayload(output.data ?? null),
       });
-    }, 10);
+    } catch (error) {
+      // The requester cancelled, it is not listening anymore
+      if (controller.signal.aborted) return;
+      this.send(from, {
+        type: "task-result",
+        taskId: task.id,
+        result: {},
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.runningTasks.delete(key);
+    }
   }
 
-  private handleTaskResult(from: string, taskId: string, result: any) {
-    const task = this.pendingTasks.get(taskId);
-    if (task) {
-      this.pendingTasks.delete(taskId);
-      this.completedTasks.set(taskId, { result, from, completedAt: Date.now() });
-      this.emit("task-completed", { taskId, result, from });
+  private handleTaskResult(from: string, message: Extract<PeerMessage, { type: "task-result" }>) {
+    const pending = this.pendingTasks.get(message.taskId);
+    // Late answers from an attempt that already timed out are dropped
+    if (!pending || pending.peerId !== from) return;
+
+    if (message.ok === false) {
+      this.emit("task-error", { taskId: message.taskId, peerId: from, error: message.error });
+      this.retryTask(pending);
+      return;
     }
+
+    this.completeTask(pending, from, message.result, decodePayload(message.data));
   }
 
-  private processRenderRequest(from: string, data: any) {
+  private processRenderRequest(from: string, data: Extract<PeerMessage, { type: "render-request" }>) {
     this.metrics.framesProcessed++;
     
-    ghostClient.sendToPeer(from, {
+    this.send(from, {
       type: "frame-data",
       frame: { 
         id: data.frameId,
@@ -392,8 +905,8 @@ export class GhostDistributed {
   }
 
   requestRender(frameId: number): void {
-    if (this.masterPeerId && this.masterPeerId !== ghostClient.getPeerId()) {
-      ghostClient.sendToPeer(this.masterPeerId, {
+    if (this.masterPeerId && this.masterPeerId !== this.client.getPeerId()) {
+      this.send(this.masterPeerId, {
         type: "render-request",
         frameId,
         timestamp: Date.now(),
@@ -408,28 +921,84 @@ export class GhostDistributed {
 
   stop() {
     this.isRunning = false;
+    Array.from(this.pendingTasks.values()).forEach((pending) => {
+      if (pending.timer) clearTimeout(pending.timer);
+      if (pending.localRun) {
+        pending.localRun.abort();
+      } else if (pending.peerId) {
+        this.send(pending.peerId, { type: "task-cancel", taskId: pending.task.id });
+      }
+      pending.reject(new Error("Stopped"));
+    });
     this.pendingTasks.clear();
     this.emit("stopped", {});
   }
 
+  // Stops the election and every timer; the instance is not used afterwards
+  destroy() {
+    this.stop();
+    this.election.stop();
+    [this.latencyProbeInterval, this.wifiDiscoveryInterval, this.p2pBroadcastInterval].forEach((interval) => {
+      if (interval) clearInterval(interval);
+    });
+    this.latencyProbeInterval = null;
+    this.wifiDiscoveryInterval = null;
+    this.p2pBroadcastInterval = null;
+    if (this.rebalanceTimer) {
+      clearTimeout(this.rebalanceTimer);
+      this.rebalanceTimer = null;
+    }
+    this.status.stop();
+  }
+
   getMyRole(): DeviceRole {
     return this.myRole;
   }
 
+  getElectionState(): ElectionState {
+    return this.election.getState();
+  }
+
   getMasterPeerId(): string | null {
     return this.masterPeerId;
   }
 
+  getSchedulingThresholds(): SchedulingThresholds {
+    return { ...this.thresholds };
+  }
+
+  // Takes effect on the next task and rebalances roles right away
+  setSchedulingThresholds(thresholds: Partial<SchedulingThresholds>) {
+    this.thresholds = { ...this.thresholds, ...thresholds };
+    this.deviceScores.forEach((device) => this.rescore(device));
+    this.rebalance();
+  }
+
   getDeviceScores(): DeviceScore[] {
     return Array.from(this.deviceScores.values());
   }
 
+  // Current role of every device, by peer id
+  getRolePlan(): Record<string, DeviceRole> {
+    return this.rebalancer.getPlan();
+  }
+
+  // Changes to the role plan, oldest first
+  getRolePlanHistory(): RolePlanEntry[] {
+    return this.rebalancer.getHistory();
+  }
+
+  // Round trips in the current window, oldest first
+  getLatencyHistory(peerId: string): number[] {
+    return this.latency.getHistory(peerId).map((sample) => sample.rtt);
+  }
+
   getMetrics(): DistributedMetrics {
     return { ...this.metrics };
   }
 
   isMaster(): boolean {
-    return this.masterPeerId === ghostClient.getPeerId();
+    return this.masterPeerId === this.client.getPeerId();
   }
 
   on(event: string, handler: DistributedEventHandler) {
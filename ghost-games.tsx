@@ -1,4 +1,5 @@
 import { useState, useRef, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Ghost, Upload, Play, Trash2, Loader2, Gamepad2, AlertCircle, X, Languages, Download, ExternalLink } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,6 +11,8 @@ import { ThemeToggle } from "@/components/theme-toggle";
 import { useToast } from "@/hooks/use-toast";
 import { EmulatorPlayer, detectCore } from "@/components/emulator-player";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { RomWithUrl } from "@shared/schema";
 
 import nesImg from "@assets/generated_images/cute_nes_console_illustration.png";
 import snesImg from "@assets/generated_images/cute_snes_console_illustration.png";
@@ -18,15 +21,6 @@ import gameboyImg from "@assets/generated_images/cute_game_boy_illustration.png"
 import megadriveImg from "@assets/generated_images/cute_mega_drive_illustration.png";
 import n64Img from "@assets/generated_images/cute_n64_console_illustration.png";
 
-interface UploadedRom {
-  id: string;
-  filename: string;
-  name: string;
-  core: string;
-  size: number;
-  url: string;
-}
-
 const translations = {
   pt: {
     title: "Sistema Fantasma",
@@ -122,8 +116,6 @@ function formatSize(bytes: number): string {
   return (bytes / (1024 * 1024)).toFixed(1) + " MB";
 }
 
-const STORAGE_KEY = "ghost-roms-list";
-
 interface PendingFile {
   file: File;
   name: string;
@@ -133,10 +125,9 @@ interface PendingFile {
 export default function GhostGamesPage() {
   const [lang, setLang] = useState<'pt' | 'en'>('en');
   const t = translations[lang];
-  const [roms, setRoms] = useState<UploadedRom[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
-  const [playingRom, setPlayingRom] = useState<UploadedRom | null>(null);
+  const [playingRom, setPlayingRom] = useState<RomWithUrl | null>(null);
   const [pendingFile, setPendingFile] = useState<PendingFile | null>(null);
   const [selectedCore, setSelectedCore] = useState<string>("");
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -144,29 +135,17 @@ export default function GhostGamesPage() {
 
   const availableCores = Object.keys(CORE_LABELS);
 
+  // Biblioteca vem do servidor, compartilhada entre dispositivos
+  const { data: roms = [] } = useQuery<RomWithUrl[]>({
+    queryKey: ["/api/roms"],
+  });
+
   useEffect(() => {
-    loadRoms();
     // Detect browser language
     const browserLang = navigator.language.split('-')[0];
     if (browserLang === 'pt') setLang('pt');
   }, []);
 
-  const loadRoms = () => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        setRoms(JSON.parse(saved));
-      } catch (e) {
-        console.error("Erro ao carregar ROMs:", e);
-      }
-    }
-  };
-
-  const saveRoms = (newRoms: UploadedRom[]) => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(newRoms));
-    setRoms(newRoms);
-  };
-
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -207,12 +186,12 @@ export default function GhostGamesPage() {
 
       setUploadProgress(90);
 
-      const rom: UploadedRom = await response.json();
+      const rom: RomWithUrl = await response.json();
       const cacheKey = `rom-cache-${rom.id}`;
       sessionStorage.setItem(cacheKey, JSON.stringify(rom));
       
       setUploadProgress(100);
-      saveRoms([...roms, rom]);
+      queryClient.invalidateQueries({ queryKey: ["/api/roms"] });
 
       toast({
         title: t.romAdded,
@@ -236,7 +215,7 @@ export default function GhostGamesPage() {
     }
   };
 
-  const handlePlayGame = (rom: UploadedRom) => {
+  const handlePlayGame = (rom: RomWithUrl) => {
     console.log("Playing ROM:", rom);
     
     // Monetização obrigatória: Abrir anúncio antes de jogar
@@ -270,11 +249,10 @@ export default function GhostGamesPage() {
     setPlayingRom(null);
   };
 
-  const handleDeleteGame = async (rom: UploadedRom) => {
+  const handleDeleteGame = async (rom: RomWithUrl) => {
     try {
-      await fetch(`/api/roms/${rom.filename}`, { method: "DELETE" });
-      const newRoms = roms.filter((r) => r.id !== rom.id);
-      saveRoms(newRoms);
+      await apiRequest("DELETE", `/api/roms/${rom.id}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/roms"] });
       toast({
         title: t.deleteTitle,
         description: t.deleteDesc,
@@ -0,0 +1,356 @@
+import { describe, it, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { GhostNetwork } from "./ghost-network";
+import { getJoinTokenIssuer } from "./ghost-auth";
+import { lobbyRoomId } from "@shared/ghost-types";
+
+// GhostNetwork on a real HTTP server on a random port, with ws clients
+// standing in for the browsers' signaling sockets.
+
+const PING_INTERVAL_MS = 5000;
+
+async function until(condition: () => boolean, timeoutMs: number = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+class FakePeer {
+  readonly messages: any[] = [];
+  private waiters: { type: string; resolve: (message: any) => void }[] = [];
+
+  private constructor(readonly ws: WebSocket, readonly peerId: string) {
+    ws.on("message", (data) => {
+      const message = JSON.parse(data.toString());
+      const index = this.waiters.findIndex((waiter) => waiter.type === message.type);
+      if (index !== -1) {
+        this.waiters.splice(index, 1)[0].resolve(message);
+      } else {
+        this.messages.push(message);
+      }
+    });
+  }
+
+  // Without autoPong the peer never answers the server's heartbeat pings
+  static async connect(server: Server, userId: string, peerId?: string, autoPong = true): Promise<FakePeer> {
+    const joinToken = getJoinTokenIssuer().issue(userId, peerId);
+    const { port } = server.address() as AddressInfo;
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/ghost?token=${encodeURIComponent(joinToken.token)}`, { autoPong });
+    await new Promise((resolve, reject) => {
+      ws.once("open", resolve);
+      ws.once("error", reject);
+    });
+    return new FakePeer(ws, joinToken.peerId);
+  }
+
+  static async join(server: Server, userId: string, peerId?: string, autoPong = true): Promise<FakePeer> {
+    const peer = await FakePeer.connect(server, userId, peerId, autoPong);
+    peer.send({ type: "join", peerId: peer.peerId, peerName: `Peer-${userId}` });
+    await peer.next("room-joined");
+    await peer.next("peer-list");
+    return peer;
+  }
+
+  send(message: any) {
+    this.ws.send(JSON.stringify(message));
+  }
+
+  // Resolves with the first message of that type not taken yet
+  next(type: string, timeoutMs: number = 2000): Promise<any> {
+    const index = this.messages.findIndex((message) => message.type === type);
+    if (index !== -1) {
+      return Promise.resolve(this.messages.splice(index, 1)[0]);
+    }
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        type,
+        resolve: (message: any) => {
+          clearTimeout(timer);
+          resolve(message);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        reject(new Error(`No ${type} message within ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+
+  // Leaves like a closing tab does, so the server does not hold the peer
+  // for a resume
+  async leave() {
+    if (this.ws.readyState !== WebSocket.OPEN) return;
+    this.send({ type: "leave", peerId: this.peerId });
+    const closed = new Promise((resolve) => this.ws.once("close", resolve));
+    this.ws.close();
+    await closed;
+  }
+}
+
+describe("GhostNetwork", () => {
+  let server: Server;
+  let network: GhostNetwork;
+  let peers: FakePeer[];
+
+  beforeEach(async () => {
+    server = createServer();
+    network = new GhostNetwork(server);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    peers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(peers.map((peer) => peer.leave()));
+    network.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function join(userId: string, peerId?: string, autoPong = true): Promise<FakePeer> {
+    const peer = await FakePeer.join(server, userId, peerId, autoPong);
+    peers.push(peer);
+    return peer;
+  }
+
+  // Messages of one socket are handled in order: once the server answered
+  // this request, everything the peer sent before it has been processed too
+  async function roundTrip(from: FakePeer, to: FakePeer) {
+    from.send({ type: "bundle-request", bundleId: "sync", from: from.peerId });
+    await to.next("bundle-request");
+  }
+
+  it("routes a bundle-response to the peer that asked for it", async () => {
+    const requester = await join("alice");
+    const holder = await join("alice");
+
+    requester.send({ type: "bundle-request", bundleId: "b1", from: requester.peerId, gameId: "zelda" });
+    const request = await holder.next("bundle-request");
+    assert.equal(request.from, requester.peerId);
+    assert.equal(request.bundleId, "b1");
+
+    holder.send({ type: "bundle-response", bundleId: "b1", to: requester.peerId, data: "AAAA", gameId: "zelda" });
+    const response = await requester.next("bundle-response");
+    assert.equal(response.from, holder.peerId);
+    assert.equal(response.data, "AAAA");
+    assert.equal(network.getStats().bundlesDistributed, 1);
+  });
+
+  it("tracks per-game distribution until a peer has every bundle", async () => {
+    const requester = await join("alice");
+    const holder = await join("alice");
+
+    holder.send({
+      type: "bundle-response",
+      bundleId: "b1",
+      to: requester.peerId,
+      data: "AAAA",
+      gameId: "zelda",
+      totalBundles: 2,
+    });
+    await requester.next("bundle-response");
+
+    assert.deepEqual(network.getDistribution("zelda", lobbyRoomId("alice")), {
+      gameId: "zelda",
+      roomId: lobbyRoomId("alice"),
+      totalBundles: 2,
+      bundlesDelivered: 1,
+      bytesDelivered: 4,
+      peers: [{ peerId: requester.peerId, bundlesReceived: 1, progress: 0.5 }],
+      ready: false,
+    });
+    assert.equal(network.getStats().gamesReady, 0);
+
+    holder.send({ type: "bundle-response", bundleId: "b2", to: requester.peerId, data: "BBBBBB", gameId: "zelda" });
+    await requester.next("bundle-response");
+
+    const distribution = network.getDistribution("zelda", lobbyRoomId("alice"))!;
+    assert.equal(distribution.bytesDelivered, 10);
+    assert.equal(distribution.peers[0].progress, 1);
+    assert.equal(distribution.ready, true);
+    assert.equal(network.getStats().gamesReady, 1);
+    assert.equal(network.getStats().bundlesDistributed, 2);
+  });
+
+  it("counts a bundle once per delivery, not per distinct bundle", async () => {
+    const requester = await join("alice");
+    const holder = await join("alice");
+
+    for (let i = 0; i < 2; i++) {
+      holder.send({ type: "bundle-response", bundleId: "b1", to: requester.peerId, data: "AAAA", gameId: "zelda", totalBundles: 2 });
+      await requester.next("bundle-response");
+    }
+
+    const distribution = network.getDistribution("zelda", lobbyRoomId("alice"))!;
+    assert.equal(distribution.bundlesDelivered, 2);
+    assert.equal(distribution.peers[0].bundlesReceived, 1);
+    assert.equal(distribution.ready, false);
+  });
+
+  it("neither relays nor counts responses that reach nobody", async () => {
+    const requester = await join("alice");
+    const holder = await join("alice");
+
+    holder.send({ type: "bundle-response", bundleId: "b1", to: "nobody", data: "AAAA", gameId: "zelda" });
+    // Claiming to come from another peer
+    holder.send({ type: "bundle-response", bundleId: "b1", to: requester.peerId, from: requester.peerId, data: "AAAA" });
+    await roundTrip(holder, requester);
+
+    assert.equal(requester.messages.filter((message) => message.type === "bundle-response").length, 0);
+    assert.equal(network.getStats().bundlesDistributed, 0);
+    assert.equal(network.getDistribution("zelda", lobbyRoomId("alice")), undefined);
+  });
+
+  it("does not relay bundle-responses across rooms", async () => {
+    const requester = await join("alice");
+    const holder = await join("alice");
+
+    holder.send({ type: "room-create", name: "Private" });
+    await holder.next("room-joined");
+    holder.send({ type: "bundle-response", bundleId: "b1", to: requester.peerId, data: "AAAA", gameId: "zelda" });
+    holder.send({ type: "room-leave" });
+    await roundTrip(holder, requester);
+
+    assert.equal(requester.messages.filter((message) => message.type === "bundle-response").length, 0);
+    assert.equal(network.getStats().bundlesDistributed, 0);
+  });
+
+  it("keeps the peers of separate accounts in lobbies of their own", async () => {
+    const laptop = await join("alice");
+    const tv = await join("alice");
+    const neighbour = await join("bob");
+
+    // The tv was announced to the laptop, the neighbour to nobody
+    assert.deepEqual((await laptop.next("peer-list")).peers.map((peer: any) => peer.id), [tv.peerId]);
+    neighbour.send({ type: "offer", to: laptop.peerId, from: neighbour.peerId, sdp: "v=0" });
+    neighbour.send({ type: "room-join", roomId: lobbyRoomId("alice") });
+    assert.equal((await neighbour.next("room-error")).error, "Room not found");
+    await roundTrip(tv, laptop);
+
+    assert.equal(laptop.messages.some((message) => message.type === "offer" || message.type === "peer-list"), false);
+    assert.deepEqual(network.getPeersForUser("bob").map((peer) => peer.id), [neighbour.peerId]);
+    assert.deepEqual(network.getPeersForUser("alice").map((peer) => peer.id).sort(), [laptop.peerId, tv.peerId].sort());
+    assert.equal(network.isRoomVisibleTo(lobbyRoomId("alice"), "bob"), false);
+    assert.equal(network.getMeasurementsForUser("bob").activePeers, 1);
+    assert.equal(network.getMeasurementsForUser("alice").activePeers, 2);
+  });
+
+  it("lets another account in through a room it was told about", async () => {
+    const host = await join("alice");
+    const guest = await join("bob");
+
+    host.send({ type: "room-create", name: "Game night" });
+    const { room } = await host.next("room-joined");
+    guest.send({ type: "room-join", roomId: room.id });
+    await guest.next("room-joined");
+    assert.deepEqual((await guest.next("peer-list")).peers.map((peer: any) => peer.id), [host.peerId]);
+
+    guest.send({ type: "bundle-response", bundleId: "b1", to: host.peerId, data: "AAAA", gameId: "zelda" });
+    await host.next("bundle-response");
+    assert.deepEqual(network.getDistributionsForUser("bob").map((d) => d.roomId), [room.id]);
+    assert.deepEqual(network.getDistributionsForUser("carol"), []);
+
+    // Back to its own lobby, out of sight of the room's distribution
+    guest.send({ type: "room-leave" });
+    assert.equal((await guest.next("room-joined")).room.id, lobbyRoomId("bob"));
+    assert.deepEqual(network.getDistributionsForUser("bob"), []);
+    assert.equal(network.isRoomVisibleTo(room.id, "bob"), false);
+  });
+
+  it("drops offers and candidates claiming to come from another peer", async () => {
+    const victim = await join("alice");
+    const target = await join("alice");
+    const forger = await join("alice");
+
+    forger.send({ type: "offer", from: victim.peerId, to: target.peerId, sdp: "v=0" });
+    forger.send({ type: "ice-candidate", from: victim.peerId, to: target.peerId, candidate: "candidate:1" });
+    forger.send({ type: "offer", from: forger.peerId, to: target.peerId, sdp: "v=0" });
+    forger.send({ type: "ice-candidate", from: forger.peerId, to: target.peerId, candidate: "candidate:2" });
+    await roundTrip(forger, target);
+
+    const relayed = target.messages.filter((message) => message.type === "offer" || message.type === "ice-candidate");
+    assert.deepEqual(relayed.map(({ type, from }) => [type, from]), [
+      ["offer", forger.peerId],
+      ["ice-candidate", forger.peerId],
+    ]);
+  });
+
+  it("evicts a peer that stops answering pings and tells its room mates", async (t) => {
+    // A network of its own, with its heartbeat under mock timers. The other
+    // one's real interval has to be cleared before clearInterval is mocked.
+    network.close();
+    t.mock.timers.enable({ apis: ["setInterval"] });
+    network = new GhostNetwork(server);
+
+    const alive = await join("alice");
+    const silent = await join("alice", undefined, false);
+    const heartbeat = async () => {
+      const pinged = new Promise((resolve) => alive.ws.once("ping", resolve));
+      t.mock.timers.tick(PING_INTERVAL_MS);
+      await pinged;
+      // The pong went out before this, on the same socket
+      await roundTrip(alive, silent);
+    };
+
+    // The first ping, then two that find it still unanswered
+    for (let i = 0; i < 3; i++) {
+      await heartbeat();
+    }
+    assert.ok(network.getPeer(silent.peerId));
+    assert.equal(alive.messages.some((message) => message.type === "peer-left"), false);
+
+    // Third missed heartbeat
+    const closed = new Promise((resolve) => silent.ws.once("close", resolve));
+    t.mock.timers.tick(PING_INTERVAL_MS);
+    assert.equal((await alive.next("peer-left")).peerId, silent.peerId);
+    await closed;
+    assert.equal(network.getPeer(silent.peerId), undefined);
+    assert.ok(network.getPeer(alive.peerId));
+  });
+
+  it("lets a dropped peer take its id back within the grace period", async () => {
+    const alice = await join("alice");
+    const other = await join("alice");
+    assert.equal(network.isResumable(alice.peerId), false);
+
+    alice.ws.terminate();
+    await until(() => network.isResumable(alice.peerId));
+
+    const resumed = await join("alice", alice.peerId);
+    assert.equal(network.isResumable(alice.peerId), false);
+    assert.deepEqual(network.getPeers().map((peer) => peer.id).sort(), [alice.peerId, other.peerId].sort());
+    // Room mates were never told the peer had left
+    assert.equal(other.messages.some((message) => message.type === "peer-left"), false);
+    assert.equal(resumed.peerId, alice.peerId);
+  });
+
+  it("does not resume a peer once the grace period is over", async () => {
+    const alice = await join("alice");
+    alice.ws.terminate();
+    await until(() => network.isResumable(alice.peerId));
+
+    const now = Date.now();
+    mock.method(Date, "now", () => now + 15000);
+    try {
+      assert.equal(network.isResumable(alice.peerId), false);
+    } finally {
+      mock.restoreAll();
+    }
+  });
+
+  it("turns away a second socket for a live peer", async () => {
+    const alice = await join("alice");
+
+    const duplicate = await FakePeer.connect(server, "alice", alice.peerId);
+    const closed = new Promise<number>((resolve) => duplicate.ws.once("close", resolve));
+    duplicate.send({ type: "join", peerId: alice.peerId });
+
+    assert.equal(await closed, 4009);
+    alice.send({ type: "room-create", name: "Still here" });
+    await alice.next("room-joined");
+  });
+});
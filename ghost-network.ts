@@ -1,17 +1,98 @@
 import { WebSocketServer, WebSocket } from "ws";
-import { Server } from "http";
-import { log } from "./index";
-import type { GhostPeer, PeerCapabilities, GhostNetworkStats } from "@shared/ghost-types";
-import { signalingMessageSchema } from "@shared/ghost-types";
+import { Server, type IncomingMessage } from "http";
+import { randomUUID } from "crypto";
+import { log } from "./log";
+import type {
+  GhostPeer,
+  GhostPeerInfo,
+  GhostRoomInfo,
+  GhostGameDistribution,
+  PeerCapabilities,
+  GhostNetworkStats,
+} from "@shared/ghost-types";
+import { signalingMessageSchema, lobbyRoomId, isLobbyRoomId } from "@shared/ghost-types";
+import { getJoinTokenIssuer, type TokenOwner } from "./ghost-auth";
+import { hashPassword, comparePasswords } from "./auth";
+
+const PING_INTERVAL_MS = 5000;
+// Unanswered pings in a row before a peer is considered gone
+const MAX_MISSED_HEARTBEATS = 3;
+// How long a peer whose socket dropped keeps its id and room for a resume
+const RESUME_GRACE_MS = 15000;
+// Window over which relayed traffic is averaged into a bandwidth figure
+const BANDWIDTH_WINDOW_MS = 10000;
+// FPS reports older than this no longer count towards the session FPS
+const FPS_REPORT_TTL_MS = 5000;
+const DEFAULT_MAX_ROOM_PEERS = 8;
+
+// What the server knows about a socket before it has joined
+interface ConnectionInfo {
+  address: string | null;
+  type: GhostPeer["type"];
+  userId: string;
+}
 
 interface ConnectedPeer {
   ws: WebSocket;
   peer: GhostPeer;
+  userId: string; // account whose join token the peer connected with
+  address: string | null;
+  rtt: number | null; // last measured WebSocket ping/pong round trip, in ms
+  pingSentAt: number | null;
+  missedHeartbeats: number;
+  fps: number | null;
+  fpsReportedAt: number;
+  roomId: string;
+  // Set while the socket is gone and the peer waits for a resume
+  disconnectedAt: number | null;
+  evictionTimer: NodeJS.Timeout | null;
+}
+
+interface GameDistribution {
+  totalBundles: number | null;
+  bundlesDelivered: number;
+  bytesDelivered: number;
+  received: Map<string, Set<string>>; // peer id -> bundle ids it was sent
+}
+
+interface GhostRoom {
+  id: string;
+  name: string;
+  hostPeerId: string | null;
+  passwordHash: string | null;
+  maxPeers: number | null;
+  peerIds: Set<string>;
+  createdAt: number;
+}
+
+export interface GhostMeasurements {
+  rtts: number[];
+  fpsReports: number[];
+  bandwidthMbps: number;
+  activePeers: number;
+}
+
+function peerTypeFromUserAgent(userAgent: string = ""): GhostPeer["type"] {
+  const ua = userAgent.toLowerCase();
+  if (/smart-?tv|tizen|web0?os|hbbtv|googletv|android tv|bravia|crkey/.test(ua)) return "tv";
+  if (/android|iphone|ipad|ipod|mobile/.test(ua)) return "mobile";
+  return "browser";
+}
+
+function joinToken(req: IncomingMessage): string | null {
+  const url = new URL(req.url || "/", "http://localhost");
+  return url.searchParams.get("token");
+}
+
+function connectionInfo(req: IncomingMessage, userId: string): ConnectionInfo {
+  const address = req.socket.remoteAddress?.replace(/^::ffff:/, "") || null;
+  return { address, type: peerTypeFromUserAgent(req.headers["user-agent"]), userId };
 }
 
 export class GhostNetwork {
   private wss: WebSocketServer;
   private peers: Map<string, ConnectedPeer> = new Map();
+  private rooms: Map<string, GhostRoom> = new Map();
   private stats: GhostNetworkStats = {
     totalPeers: 0,
     activePeers: 0,
@@ -21,15 +102,44 @@ export class GhostNetwork {
     gamesReady: 0,
   };
 
+  private trafficSamples: { at: number; bytes: number; roomId: string | null }[] = [];
+  private distributions: Map<string, Map<string, GameDistribution>> = new Map(); // room id -> game id -> distribution
+  // Peer each socket was authorized for, to account relayed traffic to its room
+  private socketPeerIds: WeakMap<WebSocket, string> = new WeakMap();
+  private pingInterval: NodeJS.Timeout;
+  // Peer id and account each upgrade request was authorized for by its join token
+  private authorizedOwners: WeakMap<IncomingMessage, TokenOwner> = new WeakMap();
+
   constructor(server: Server) {
-    this.wss = new WebSocketServer({ server, path: "/ghost" });
+    this.wss = new WebSocketServer({
+      server,
+      path: "/ghost",
+      verifyClient: (info, callback) => {
+        const token = joinToken(info.req);
+        const owner = token ? getJoinTokenIssuer().redeem(token) : null;
+        if (!owner) {
+          log(`Rejected /ghost upgrade from ${info.req.socket.remoteAddress}: invalid join token`, "ghost");
+          return callback(false, 401, "Invalid or expired join token");
+        }
+        this.authorizedOwners.set(info.req, owner);
+        callback(true);
+      },
+    });
     this.setupWebSocket();
+    this.pingInterval = setInterval(() => this.pingPeers(), PING_INTERVAL_MS);
     log("Ghost Network initialized", "ghost");
   }
 
   private setupWebSocket() {
-    this.wss.on("connection", (ws: WebSocket) => {
-      let peerId: string | null = null;
+    this.wss.on("connection", (ws: WebSocket, req: IncomingMessage) => {
+      const owner = this.authorizedOwners.get(req);
+      if (!owner) {
+        ws.close(4001, "Unauthorized");
+        return;
+      }
+      const { peerId } = owner;
+      const connection = connectionInfo(req, owner.userId);
+      this.socketPeerIds.set(ws, peerId);
 
       ws.on("message", (data: Buffer) => {
         try {
@@ -41,15 +151,30 @@ export class GhostNetwork {
             return;
           }
           
-          peerId = this.handleMessage(ws, parseResult.data, peerId);
+          this.touch(peerId, ws);
+          this.handleMessage(ws, parseResult.data, peerId, connection);
         } catch (error) {
           log(`Invalid message received: ${error}`, "ghost");
         }
       });
 
+      ws.on("pong", () => {
+        const connected = this.peers.get(peerId);
+        if (connected?.ws !== ws) return;
+
+        this.touch(peerId, ws);
+        connected.missedHeartbeats = 0;
+        if (connected.pingSentAt) {
+          connected.rtt = Date.now() - connected.pingSentAt;
+          connected.pingSentAt = null;
+          this.updateStats();
+        }
+      });
+
       ws.on("close", () => {
-        if (peerId) {
-          this.removePeer(peerId);
+        // Only if this socket is still the one registered for the peer
+        if (this.peers.get(peerId)?.ws === ws) {
+          this.suspendPeer(peerId);
         }
       });
 
@@ -59,39 +184,94 @@ export class GhostNetwork {
     });
   }
 
-  private handleMessage(ws: WebSocket, message: any, currentPeerId: string | null): string | null {
-    switch (message.type) {
-      case "join":
-        return this.handleJoin(ws, message);
+  private handleMessage(ws: WebSocket, message: any, peerId: string, connection: ConnectionInfo) {
+    if (message.type === "join") {
+      if (message.peerId && message.peerId !== peerId) {
+        log(`Rejected join as ${message.peerId} from socket bound to ${peerId}`, "ghost");
+        return;
+      }
+      this.handleJoin(ws, message, peerId, connection);
+      return;
+    }
 
+    // Everything else requires a joined peer, and whatever it claims to be
+    // "from" must be the peer its token was issued for
+    if (this.peers.get(peerId)?.ws !== ws) {
+      log(`Ignoring ${message.type} from ${peerId} before join`, "ghost");
+      return;
+    }
+    if ("from" in message && message.from !== peerId) {
+      log(`Rejected ${message.type} from ${peerId} claiming to be ${message.from}`, "ghost");
+      return;
+    }
+
+    switch (message.type) {
       case "leave":
-        if (message.peerId) {
-          this.removePeer(message.peerId);
-        }
-        return null;
+        this.removePeer(peerId);
+        break;
 
       case "offer":
       case "answer":
       case "ice-candidate":
-        this.relayMessage(message);
-        return currentPeerId;
+        this.relayMessage(peerId, message);
+        break;
 
       case "bundle-request":
-        this.handleBundleRequest(message);
-        return currentPeerId;
+        this.handleBundleRequest(peerId, message);
+        break;
+
+      case "bundle-response":
+        this.handleBundleResponse(peerId, message);
+        break;
 
       case "state-sync":
-        this.broadcastStateSync(message);
-        return currentPeerId;
+        this.broadcastStateSync(peerId, message);
+        break;
+
+      case "stats-report":
+        this.handleStatsReport(peerId, message);
+        break;
+
+      case "room-create":
+        this.handleRoomCreate(ws, peerId, message).catch((error) => {
+          log(`Failed to create room for ${peerId}: ${error}`, "ghost");
+        });
+        break;
+
+      case "room-join":
+        this.handleRoomJoin(ws, peerId, message).catch((error) => {
+          log(`Failed to join room for ${peerId}: ${error}`, "ghost");
+        });
+        break;
+
+      case "room-leave":
+        this.moveToRoom(peerId, this.lobbyOf(this.peers.get(peerId)!.userId).id);
+        break;
 
       default:
         log(`Unknown message type: ${message.type}`, "ghost");
-        return currentPeerId;
     }
   }
 
-  private handleJoin(ws: WebSocket, message: any): string {
-    const peerId = message.peerId;
+  private handleJoin(ws: WebSocket, message: any, peerId: string, connection: ConnectionInfo) {
+    const existing = this.peers.get(peerId);
+    if (existing && existing.userId !== connection.userId) {
+      log(`Rejected resume of ${peerId} by another account`, "ghost");
+      ws.close(4003, "Peer belongs to another account");
+      return;
+    }
+    // Another socket for a peer that is still connected, e.g. two reconnects
+    // raced for the same id and the other one won
+    if (existing && existing.ws !== ws && !this.isResumable(peerId)) {
+      log(`Rejected second connection for live peer ${peerId}`, "ghost");
+      ws.close(4009, "Peer is already connected");
+      return;
+    }
+    if (existing) {
+      this.resumePeer(existing, ws, message, connection);
+      return;
+    }
+
     const capabilities: PeerCapabilities = message.capabilities || {
       hasGPU: false,
       hasWASM: true,
@@ -105,94 +285,403 @@ export class GhostNetwork {
     const peer: GhostPeer = {
       id: peerId,
       name: message.peerName || `Peer-${peerId.slice(0, 6)}`,
-      type: "browser",
+      type: connection.type,
       capabilities,
       status: "connected",
       lastSeen: Date.now(),
     };
 
-    this.peers.set(peerId, { ws, peer });
+    const lobby = this.lobbyOf(connection.userId);
+    const connected: ConnectedPeer = {
+      ws,
+      peer,
+      userId: connection.userId,
+      address: connection.address,
+      rtt: null,
+      pingSentAt: null,
+      missedHeartbeats: 0,
+      fps: null,
+      fpsReportedAt: 0,
+      roomId: lobby.id,
+      disconnectedAt: null,
+      evictionTimer: null,
+    };
+    this.peers.set(peerId, connected);
+    lobby.peerIds.add(peerId);
     this.updateStats();
 
     log(`Peer joined: ${peer.name} (${peerId})`, "ghost");
 
-    // Send peer list to the new peer
-    const peerList = Array.from(this.peers.values())
-      .filter((p) => p.peer.id !== peerId)
+    this.send(ws, JSON.stringify({
+      type: "room-joined",
+      room: this.toRoomInfo(lobby),
+    }));
+    this.introduceToRoom(connected);
+  }
+
+  // A peer that reconnected with a token for its previous id takes over its
+  // old entry: same id, same room, and its WebRTC links to the room mates
+  // never went through the server, so they are not torn down either
+  private resumePeer(connected: ConnectedPeer, ws: WebSocket, message: any, connection: ConnectionInfo) {
+    if (connected.evictionTimer) {
+      clearTimeout(connected.evictionTimer);
+    }
+
+    connected.ws = ws;
+    connected.address = connection.address;
+    connected.pingSentAt = null;
+    connected.missedHeartbeats = 0;
+    connected.disconnectedAt = null;
+    connected.evictionTimer = null;
+    connected.peer.status = "connected";
+    connected.peer.lastSeen = Date.now();
+    if (message.peerName) connected.peer.name = message.peerName;
+    if (message.capabilities) connected.peer.capabilities = message.capabilities;
+
+    this.updateStats();
+
+    log(`Peer resumed: ${connected.peer.name} (${connected.peer.id})`, "ghost");
+
+    const room = this.rooms.get(connected.roomId)!;
+    this.send(ws, JSON.stringify({ type: "room-joined", room: this.toRoomInfo(room) }));
+    this.send(ws, JSON.stringify({
+      type: "peer-list",
+      peers: this.roomPeers(room.id)
+        .filter((p) => p.peer.id !== connected.peer.id)
+        .map((p) => ({
+          id: p.peer.id,
+          name: p.peer.name,
+          type: p.peer.type,
+          status: p.peer.status,
+          capabilities: p.peer.capabilities,
+        })),
+    }));
+  }
+
+  // The socket went away without a "leave": keep the peer around for a
+  // while in case it comes back with its resume token
+  private suspendPeer(peerId: string) {
+    const connected = this.peers.get(peerId);
+    if (!connected || connected.disconnectedAt !== null) return;
+
+    connected.disconnectedAt = Date.now();
+    connected.peer.status = "connecting";
+    connected.pingSentAt = null;
+    connected.evictionTimer = setTimeout(() => {
+      log(`Peer did not resume in time: ${connected.peer.name} (${peerId})`, "ghost");
+      this.removePeer(peerId);
+    }, RESUME_GRACE_MS);
+    this.updateStats();
+  }
+
+  // Only a peer whose socket dropped can be taken back, and only within the
+  // grace period; a live peer's id is never handed out a second time
+  isResumable(peerId: string): boolean {
+    const connected = this.peers.get(peerId);
+    if (!connected || connected.disconnectedAt === null) return false;
+    return Date.now() - connected.disconnectedAt < RESUME_GRACE_MS;
+  }
+
+  private touch(peerId: string, ws: WebSocket) {
+    const connected = this.peers.get(peerId);
+    if (connected?.ws === ws) {
+      connected.peer.lastSeen = Date.now();
+    }
+  }
+
+  // Sends the peer the list of its room mates, and the room mates the peer
+  private introduceToRoom(connected: ConnectedPeer) {
+    const { peer } = connected;
+    const peerList = this.roomPeers(connected.roomId)
+      .filter((p) => p.peer.id !== peer.id)
       .map((p) => ({
         id: p.peer.id,
         name: p.peer.name,
         type: p.peer.type,
         status: p.peer.status,
+        capabilities: p.peer.capabilities,
       }));
 
-    ws.send(JSON.stringify({
+    this.send(connected.ws, JSON.stringify({
       type: "peer-list",
       peers: peerList,
     }));
 
     // Forçar os outros peers a se conectarem imediatamente ao novo peer
-    this.broadcast({
+    this.broadcastToRoom(connected.roomId, {
       type: "peer-list",
       peers: [{
         id: peer.id,
         name: peer.name,
         type: peer.type,
         status: peer.status,
+        capabilities: peer.capabilities,
       }]
-    }, peerId);
-
-    return peerId;
+    }, peer.id);
   }
 
   private removePeer(peerId: string) {
     const peer = this.peers.get(peerId);
     if (peer) {
+      if (peer.evictionTimer) {
+        clearTimeout(peer.evictionTimer);
+      }
       log(`Peer left: ${peer.peer.name} (${peerId})`, "ghost");
+      this.leaveRoom(peer);
       this.peers.delete(peerId);
       this.updateStats();
+    }
+  }
 
-      this.broadcast({
-        type: "peer-left",
-        peerId,
-      });
+  private async handleRoomCreate(ws: WebSocket, peerId: string, message: any) {
+    const passwordHash = message.password ? await hashPassword(message.password) : null;
+    // The socket may have gone away while the password was hashing
+    if (this.peers.get(peerId)?.ws !== ws) return;
+
+    const room: GhostRoom = {
+      id: randomUUID(),
+      name: message.name,
+      hostPeerId: peerId,
+      passwordHash,
+      maxPeers: message.maxPeers ?? DEFAULT_MAX_ROOM_PEERS,
+      peerIds: new Set(),
+      createdAt: Date.now(),
+    };
+    this.rooms.set(room.id, room);
+    log(`Room created: ${room.name} (${room.id}) by ${peerId}`, "ghost");
+
+    this.moveToRoom(peerId, room.id);
+  }
+
+  private async handleRoomJoin(ws: WebSocket, peerId: string, message: any) {
+    const userId = this.peers.get(peerId)!.userId;
+    // Another account's lobby does not exist as far as this peer is concerned
+    const room = message.roomId === lobbyRoomId(userId)
+      ? this.lobbyOf(userId)
+      : isLobbyRoomId(message.roomId) ? undefined : this.rooms.get(message.roomId);
+    if (!room) {
+      return this.send(ws, JSON.stringify({ type: "room-error", error: "Room not found" }));
+    }
+    if (room.passwordHash && !(await comparePasswords(message.password || "", room.passwordHash))) {
+      return this.send(ws, JSON.stringify({ type: "room-error", error: "Wrong room password" }));
+    }
+    if (this.peers.get(peerId)?.ws !== ws) return;
+
+    // Checked after the await so concurrent joins cannot overfill the room
+    if (room.maxPeers !== null && room.peerIds.size >= room.maxPeers && !room.peerIds.has(peerId)) {
+      return this.send(ws, JSON.stringify({ type: "room-error", error: "Room is full" }));
+    }
+    this.moveToRoom(peerId, room.id);
+  }
+
+  private moveToRoom(peerId: string, roomId: string) {
+    const connected = this.peers.get(peerId);
+    const room = this.rooms.get(roomId);
+    if (!connected || !room) return;
+
+    if (connected.roomId !== room.id) {
+      this.leaveRoom(connected);
+      room.peerIds.add(peerId);
+      connected.roomId = room.id;
+      log(`Peer ${peerId} moved to room ${room.name} (${room.id})`, "ghost");
+    }
+
+    this.send(connected.ws, JSON.stringify({ type: "room-joined", room: this.toRoomInfo(room) }));
+    this.introduceToRoom(connected);
+  }
+
+  // The account's lobby, opened again if all its peers had left it
+  private lobbyOf(userId: string): GhostRoom {
+    const id = lobbyRoomId(userId);
+    let lobby = this.rooms.get(id);
+    if (!lobby) {
+      lobby = {
+        id,
+        name: "Lobby",
+        hostPeerId: null,
+        passwordHash: null,
+        maxPeers: null,
+        peerIds: new Set(),
+        createdAt: Date.now(),
+      };
+      this.rooms.set(id, lobby);
     }
+    return lobby;
   }
 
-  private relayMessage(message: { to?: string; [key: string]: any }) {
+  // Takes the peer out of its room: tells the room mates, hands the room to
+  // another peer if it was the host and drops the room once it is empty
+  private leaveRoom(connected: ConnectedPeer) {
+    const peerId = connected.peer.id;
+    const room = this.rooms.get(connected.roomId);
+    if (!room) return;
+
+    room.peerIds.delete(peerId);
+    this.broadcastToRoom(room.id, { type: "peer-left", peerId });
+
+    if (room.peerIds.size === 0) {
+      this.rooms.delete(room.id);
+      this.distributions.delete(room.id);
+      this.updateGamesReady();
+      log(`Room closed: ${room.name} (${room.id})`, "ghost");
+      return;
+    }
+
+    if (room.hostPeerId === peerId) {
+      room.hostPeerId = room.peerIds.values().next().value ?? null;
+      this.broadcastToRoom(room.id, { type: "room-updated", room: this.toRoomInfo(room) });
+    }
+  }
+
+  private roomPeers(roomId: string): ConnectedPeer[] {
+    const room = this.rooms.get(roomId);
+    if (!room) return [];
+    return Array.from(room.peerIds)
+      .map((id) => this.peers.get(id))
+      .filter((p): p is ConnectedPeer => p !== undefined);
+  }
+
+  // Returns whether the message was handed to the target's socket
+  private relayMessage(fromPeerId: string, message: { to?: string; [key: string]: any }): boolean {
     if (!message.to) {
       log("Relay message missing 'to' field", "ghost");
-      return;
+      return false;
     }
     
     const targetPeer = this.peers.get(message.to);
+    // Peers in other rooms are invisible: relaying to them would leak across rooms
+    if (targetPeer && targetPeer.roomId !== this.peers.get(fromPeerId)?.roomId) {
+      log(`Dropped ${message.type} from ${fromPeerId} to ${message.to} in another room`, "ghost");
+      return false;
+    }
     if (targetPeer && targetPeer.ws.readyState === WebSocket.OPEN) {
       try {
-        targetPeer.ws.send(JSON.stringify(message));
+        this.send(targetPeer.ws, JSON.stringify(message));
+        return true;
       } catch (error) {
         log(`Failed to relay message to ${message.to}: ${error}`, "ghost");
       }
     }
+    return false;
+  }
+
+  private handleBundleResponse(peerId: string, message: any) {
+    const delivered = this.relayMessage(peerId, { ...message, from: peerId });
+    if (!delivered) return;
+
+    const bytes = Buffer.byteLength(message.data);
+    this.stats.bundlesDistributed++;
+
+    if (message.gameId) {
+      const { roomId } = this.peers.get(peerId)!;
+      this.recordDelivery(roomId, message.gameId, message.to, message.bundleId, bytes, message.totalBundles);
+    }
   }
 
-  private handleBundleRequest(message: any) {
-    // Request bundle from all peers that might have it
-    this.broadcast({
+  private recordDelivery(
+    roomId: string,
+    gameId: string,
+    toPeerId: string,
+    bundleId: string,
+    bytes: number,
+    totalBundles?: number,
+  ) {
+    const roomDistributions = this.distributions.get(roomId) ?? new Map<string, GameDistribution>();
+    this.distributions.set(roomId, roomDistributions);
+    let distribution = roomDistributions.get(gameId);
+    if (!distribution) {
+      distribution = { totalBundles: null, bundlesDelivered: 0, bytesDelivered: 0, received: new Map() };
+      roomDistributions.set(gameId, distribution);
+    }
+
+    if (totalBundles !== undefined) {
+      distribution.totalBundles = totalBundles;
+    }
+    distribution.bundlesDelivered++;
+    distribution.bytesDelivered += bytes;
+
+    const received = distribution.received.get(toPeerId) ?? new Set<string>();
+    received.add(bundleId);
+    distribution.received.set(toPeerId, received);
+
+    this.updateGamesReady();
+  }
+
+  private updateGamesReady() {
+    this.stats.gamesReady = Array.from(this.distributions.values())
+      .flatMap((roomDistributions) => Array.from(roomDistributions.values()))
+      .filter((d) => this.isGameReady(d))
+      .length;
+  }
+
+  private isGameReady(distribution: GameDistribution): boolean {
+    const { totalBundles } = distribution;
+    if (totalBundles === null) return false;
+    return Array.from(distribution.received.values()).some((bundles) => bundles.size >= totalBundles);
+  }
+
+  private handleBundleRequest(peerId: string, message: any) {
+    // Request bundle from all peers in the room that might have it
+    this.broadcastToRoom(this.peers.get(peerId)!.roomId, {
       type: "bundle-request",
       bundleId: message.bundleId,
       from: message.from,
+      gameId: message.gameId,
     }, message.from);
   }
 
-  private broadcastStateSync(message: any) {
-    this.broadcast(message);
+  private broadcastStateSync(peerId: string, message: any) {
+    this.broadcastToRoom(this.peers.get(peerId)!.roomId, message);
   }
 
-  private broadcast(message: any, excludePeerId?: string) {
+  private handleStatsReport(peerId: string, message: any) {
+    const connected = this.peers.get(peerId);
+    if (connected) {
+      connected.fps = message.fps;
+      connected.fpsReportedAt = Date.now();
+    }
+  }
+
+  private pingPeers() {
+    Array.from(this.peers.values()).forEach((connected) => {
+      if (connected.disconnectedAt !== null || connected.ws.readyState !== WebSocket.OPEN) return;
+
+      // The previous ping is still unanswered
+      if (connected.pingSentAt !== null) {
+        connected.missedHeartbeats++;
+      }
+      if (connected.missedHeartbeats >= MAX_MISSED_HEARTBEATS) {
+        // Half-open socket: nothing will ever arrive on it again
+        log(`Evicting unresponsive peer: ${connected.peer.name} (${connected.peer.id})`, "ghost");
+        connected.ws.terminate();
+        this.removePeer(connected.peer.id);
+        return;
+      }
+
+      connected.pingSentAt = Date.now();
+      connected.ws.ping();
+    });
+  }
+
+  private send(ws: WebSocket, data: string) {
+    ws.send(data);
+    const peerId = this.socketPeerIds.get(ws);
+    this.recordTraffic(Buffer.byteLength(data), (peerId && this.peers.get(peerId)?.roomId) || null);
+  }
+
+  private recordTraffic(bytes: number, roomId: string | null) {
+    const now = Date.now();
+    this.trafficSamples.push({ at: now, bytes, roomId });
+    while (this.trafficSamples.length > 0 && this.trafficSamples[0].at < now - BANDWIDTH_WINDOW_MS) {
+      this.trafficSamples.shift();
+    }
+  }
+
+  private broadcastToRoom(roomId: string, message: any, excludePeerId?: string) {
     const data = JSON.stringify(message);
-    Array.from(this.peers.entries()).forEach(([peerId, peer]) => {
-      if (peerId !== excludePeerId && peer.ws.readyState === WebSocket.OPEN) {
-        peer.ws.send(data);
+    this.roomPeers(roomId).forEach((peer) => {
+      if (peer.peer.id !== excludePeerId && peer.ws.readyState === WebSocket.OPEN) {
+        this.send(peer.ws, data);
       }
     });
   }
@@ -204,14 +693,152 @@ export class GhostNetwork {
       .length;
     this.stats.totalBandwidth = Array.from(this.peers.values())
       .reduce((sum, p) => sum + p.peer.capabilities.bandwidth, 0);
+
+    const rtts = this.getMeasurements().rtts;
+    this.stats.averageLatency = rtts.length > 0
+      ? rtts.reduce((sum, rtt) => sum + rtt, 0) / rtts.length
+      : 0;
+  }
+
+  // Over the whole server, or only the peers and traffic of some rooms
+  getMeasurements(roomIds?: string[]): GhostMeasurements {
+    const now = Date.now();
+    const inScope = (roomId: string | null) => !roomIds || (roomId !== null && roomIds.includes(roomId));
+    const peers = Array.from(this.peers.values()).filter((p) => inScope(p.roomId));
+    const connected = peers.filter((p) => p.disconnectedAt === null);
+
+    const windowStart = now - BANDWIDTH_WINDOW_MS;
+    const bytes = this.trafficSamples
+      .filter((sample) => sample.at >= windowStart && inScope(sample.roomId))
+      .reduce((sum, sample) => sum + sample.bytes, 0);
+
+    return {
+      rtts: connected
+        .map((p) => p.rtt)
+        .filter((rtt): rtt is number => rtt !== null),
+      fpsReports: connected
+        .filter((p) => p.fps !== null && now - p.fpsReportedAt <= FPS_REPORT_TTL_MS)
+        .map((p) => p.fps as number),
+      bandwidthMbps: (bytes * 8) / (BANDWIDTH_WINDOW_MS / 1000) / 1_000_000,
+      activePeers: peers.filter((p) => p.peer.status === "connected" || p.peer.status === "ready").length,
+    };
+  }
+
+  getMeasurementsForUser(userId: string): GhostMeasurements {
+    return this.getMeasurements(this.getUserRoomIds(userId));
   }
 
   getStats(): GhostNetworkStats {
     return { ...this.stats };
   }
 
-  getPeers(): GhostPeer[] {
-    return Array.from(this.peers.values()).map((p) => p.peer);
+  close() {
+    clearInterval(this.pingInterval);
+    Array.from(this.peers.values()).forEach((connected) => {
+      if (connected.evictionTimer) {
+        clearTimeout(connected.evictionTimer);
+      }
+    });
+    this.wss.close();
+  }
+
+  getPeers(roomId?: string): GhostPeerInfo[] {
+    const peers = roomId ? this.roomPeers(roomId) : Array.from(this.peers.values());
+    return peers.map((p) => this.toPeerInfo(p));
+  }
+
+  getPeer(peerId: string): GhostPeerInfo | undefined {
+    const connected = this.peers.get(peerId);
+    return connected ? this.toPeerInfo(connected) : undefined;
+  }
+
+  // What an account may see: the peers sharing a room with one of its own
+  // peers, optionally narrowed down to one of those rooms
+  getPeersForUser(userId: string, roomId?: string): GhostPeerInfo[] {
+    const roomIds = this.getUserRoomIds(userId);
+    if (roomId !== undefined && !roomIds.includes(roomId)) return [];
+    return (roomId !== undefined ? [roomId] : roomIds).flatMap((id) => this.getPeers(id));
+  }
+
+  isPeerVisibleTo(peerId: string, userId: string): boolean {
+    const connected = this.peers.get(peerId);
+    return connected !== undefined && this.getUserRoomIds(userId).includes(connected.roomId);
+  }
+
+  isRoomVisibleTo(roomId: string, userId: string): boolean {
+    return this.getUserRoomIds(userId).includes(roomId);
+  }
+
+  isPeerOwnedBy(peerId: string, userId: string): boolean {
+    return this.peers.get(peerId)?.userId === userId;
+  }
+
+  private getUserRoomIds(userId: string): string[] {
+    const roomIds = Array.from(this.peers.values())
+      .filter((p) => p.userId === userId)
+      .map((p) => p.roomId);
+    return Array.from(new Set(roomIds));
+  }
+
+  private toPeerInfo(connected: ConnectedPeer): GhostPeerInfo {
+    return { ...connected.peer, rtt: connected.rtt, address: connected.address, roomId: connected.roomId };
+  }
+
+  getDistribution(gameId: string, roomId: string): GhostGameDistribution | undefined {
+    const distribution = this.distributions.get(roomId)?.get(gameId);
+    return distribution ? this.toDistributionInfo(roomId, gameId, distribution) : undefined;
+  }
+
+  getDistributions(roomId?: string): GhostGameDistribution[] {
+    const roomIds = roomId !== undefined ? [roomId] : Array.from(this.distributions.keys());
+    return roomIds.flatMap((id) =>
+      Array.from(this.distributions.get(id)?.entries() ?? []).map(([gameId, d]) => this.toDistributionInfo(id, gameId, d)),
+    );
+  }
+
+  // Distributions in the rooms the account has a peer in, like getPeersForUser
+  getDistributionsForUser(userId: string, roomId?: string): GhostGameDistribution[] {
+    const roomIds = this.getUserRoomIds(userId);
+    if (roomId !== undefined && !roomIds.includes(roomId)) return [];
+    return (roomId !== undefined ? [roomId] : roomIds).flatMap((id) => this.getDistributions(id));
+  }
+
+  private toDistributionInfo(roomId: string, gameId: string, distribution: GameDistribution): GhostGameDistribution {
+    const { totalBundles } = distribution;
+    return {
+      gameId,
+      roomId,
+      totalBundles,
+      bundlesDelivered: distribution.bundlesDelivered,
+      bytesDelivered: distribution.bytesDelivered,
+      peers: Array.from(distribution.received.entries()).map(([peerId, bundles]) => ({
+        peerId,
+        bundlesReceived: bundles.size,
+        progress: totalBundles ? Math.min(1, bundles.size / totalBundles) : null,
+      })),
+      ready: this.isGameReady(distribution),
+    };
+  }
+
+  getRooms(): GhostRoomInfo[] {
+    return Array.from(this.rooms.values()).map((room) => this.toRoomInfo(room));
+  }
+
+  getRoom(roomId: string): GhostRoomInfo | undefined {
+    const room = this.rooms.get(roomId);
+    return room ? this.toRoomInfo(room) : undefined;
+  }
+
+  private toRoomInfo(room: GhostRoom): GhostRoomInfo {
+    return {
+      id: room.id,
+      name: room.name,
+      hostPeerId: room.hostPeerId,
+      peerCount: room.peerIds.size,
+      maxPeers: room.maxPeers,
+      hasPassword: room.passwordHash !== null,
+      createdAt: room.createdAt,
+    };
   }
 }
 
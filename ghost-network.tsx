@@ -1,27 +1,48 @@
 import { useEffect, useState, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
-import { Ghost, Wifi, WifiOff, Users, Activity, Zap, HardDrive, Cpu, Monitor, RefreshCw, Gamepad2 } from "lucide-react";
+import { Ghost, Wifi, WifiOff, Users, Activity, Zap, HardDrive, Cpu, Monitor, RefreshCw, Gamepad2, DoorOpen, Lock, Crown, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { StatusBar } from "@/components/status-bar";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { useToast } from "@/hooks/use-toast";
 import { ghostClient } from "@/lib/ghost-client";
-import type { GhostPeer, GhostNetworkStats } from "@shared/ghost-types";
+import { bundleSwarm, type AvailableGame, type SwarmProgress } from "@/lib/bundle-swarm";
+import { isLobbyRoomId, type GhostPeer, type GhostPeerInfo, type GhostNetworkStats, type GhostRoomInfo } from "@shared/ghost-types";
 
 export default function GhostNetworkPage() {
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [peers, setPeers] = useState<GhostPeer[]>([]);
   const [dataChannels, setDataChannels] = useState(0);
+  const [currentRoom, setCurrentRoom] = useState<GhostRoomInfo | null>(ghostClient.getCurrentRoom());
+  const [roomName, setRoomName] = useState("");
+  const [roomPassword, setRoomPassword] = useState("");
+  const [joinPasswords, setJoinPasswords] = useState<Record<string, string>>({});
+  const [availableGames, setAvailableGames] = useState<AvailableGame[]>(bundleSwarm.getAvailableGames());
+  const [downloads, setDownloads] = useState<Record<string, SwarmProgress>>({});
+  const [connectionStates, setConnectionStates] = useState<Record<string, RTCPeerConnectionState>>({});
+  const { toast } = useToast();
 
   const { data: serverStats, refetch: refetchStats } = useQuery<GhostNetworkStats>({
     queryKey: ["/api/ghost/stats"],
     refetchInterval: 3000,
   });
 
+  const { data: serverPeers = [] } = useQuery<GhostPeerInfo[]>({
+    queryKey: [currentRoom ? `/api/ghost/peers?roomId=${encodeURIComponent(currentRoom.id)}` : "/api/ghost/peers"],
+    refetchInterval: 3000,
+  });
+
+  const { data: openRooms = [], refetch: refetchRooms } = useQuery<GhostRoomInfo[]>({
+    queryKey: ["/api/ghost/rooms"],
+    refetchInterval: 5000,
+  });
+
   const handleConnect = useCallback(async () => {
     setIsConnecting(true);
     try {
@@ -64,12 +85,55 @@ export default function GhostNetworkPage() {
       setIsConnected(false);
       setPeers([]);
       setDataChannels(0);
+      setCurrentRoom(null);
+    };
+
+    const handleRoomChanged = (room: GhostRoomInfo) => {
+      setCurrentRoom(room);
+      refetchRooms();
+    };
+
+    const handleRoomError = ({ error }: { error: string }) => {
+      const descriptions: Record<string, string> = {
+        "Room not found": "A sala não existe mais.",
+        "Wrong room password": "Senha da sala incorreta.",
+        "Room is full": "A sala está cheia.",
+      };
+      toast({
+        title: "Não foi possível entrar na sala",
+        description: descriptions[error] ?? error,
+        variant: "destructive",
+      });
+    };
+
+    const handlePeerIncompatible = ({ peerId }: { peerId: string }) => {
+      toast({
+        title: "Dispositivo incompatível",
+        description: `O dispositivo ${peerId.slice(0, 8)} usa outra versão do Sistema Fantasma. Atualize os dois aparelhos.`,
+        variant: "destructive",
+      });
     };
 
     ghostClient.on("peers-updated", handlePeersUpdated);
     ghostClient.on("channel-open", handleChannelOpen);
     ghostClient.on("channel-close", handleChannelClose);
     ghostClient.on("disconnected", handleDisconnected);
+    ghostClient.on("room-joined", handleRoomChanged);
+    ghostClient.on("room-updated", handleRoomChanged);
+    ghostClient.on("room-error", handleRoomError);
+    ghostClient.on("peer-incompatible", handlePeerIncompatible);
+
+    const handleSwarmProgress = (progress: SwarmProgress) => {
+      setDownloads((current) => ({ ...current, [progress.gameId]: progress }));
+    };
+
+    const handleConnectionState = ({ peerId, state }: { peerId: string; state: RTCPeerConnectionState }) => {
+      setConnectionStates((current) => ({ ...current, [peerId]: state }));
+    };
+
+    ghostClient.on("connection-state", handleConnectionState);
+    bundleSwarm.on("available", setAvailableGames);
+    bundleSwarm.on("progress", handleSwarmProgress);
 
     // Forçar busca de peers a cada 10 segundos se estiver conectado
     const peerDiscoveryInterval = setInterval(() => {
@@ -84,10 +148,57 @@ export default function GhostNetworkPage() {
       ghostClient.off("channel-open", handleChannelOpen);
       ghostClient.off("channel-close", handleChannelClose);
       ghostClient.off("disconnected", handleDisconnected);
+      ghostClient.off("room-joined", handleRoomChanged);
+      ghostClient.off("room-updated", handleRoomChanged);
+      ghostClient.off("room-error", handleRoomError);
+      ghostClient.off("peer-incompatible", handlePeerIncompatible);
+      ghostClient.off("connection-state", handleConnectionState);
+      bundleSwarm.off("available", setAvailableGames);
+      bundleSwarm.off("progress", handleSwarmProgress);
     };
-  }, [refetchStats]);
+  }, [refetchStats, refetchRooms, toast]);
+
+  const handleCreateRoom = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!roomName.trim()) return;
+    ghostClient.createRoom(roomName.trim(), roomPassword);
+    setRoomName("");
+    setRoomPassword("");
+  };
+
+  const handleDownload = (game: AvailableGame) => {
+    bundleSwarm.download(game.gameId).catch((error) => {
+      console.error("Swarm download failed:", error);
+      toast({
+        title: "Falha no download",
+        description: `Não foi possível baixar ${game.gameName} dos peers.`,
+        variant: "destructive",
+      });
+    });
+  };
+
+  const downloadStatusLabels: Record<SwarmProgress["status"], string> = {
+    downloading: "Baixando",
+    stalled: "Aguardando peers",
+    complete: "Concluído",
+    failed: "Falhou",
+  };
+  const downloadList = Object.values(downloads);
+
+  const connectionStateLabels: Record<RTCPeerConnectionState, string> = {
+    new: "Novo",
+    connecting: "Conectando",
+    connected: "P2P",
+    disconnected: "Instável",
+    failed: "Falhou",
+    closed: "Fechado",
+  };
+
+  const inLobby = !currentRoom || isLobbyRoomId(currentRoom.id);
+  const isHost = currentRoom?.hostPeerId === ghostClient.getPeerId();
 
   const capabilities = ghostClient.getCapabilities();
+  const peerRtts = new Map(serverPeers.map((p) => [p.id, p.rtt]));
 
   return (
     <div className="flex flex-col min-h-screen bg-background pb-20">
@@ -129,7 +240,7 @@ export default function GhostNetworkPage() {
               <div className="grid grid-cols-2 gap-4">
                 <div className="flex items-center gap-2">
                   <Users className="w-4 h-4 text-muted-foreground" />
-                  <span className="text-sm">{peers.length} peers na rede</span>
+                  <span className="text-sm">{peers.length} peers na sala</span>
                 </div>
                 <div className="flex items-center gap-2">
                   <Zap className="w-4 h-4 text-muted-foreground" />
@@ -140,6 +251,94 @@ export default function GhostNetworkPage() {
           </CardContent>
         </Card>
 
+        {isConnected && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+              <CardTitle className="text-base font-medium">Sala</CardTitle>
+              <Badge variant={inLobby ? "secondary" : "default"} data-testid="badge-current-room">
+                {inLobby ? "Lobby" : currentRoom?.name}
+              </Badge>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {inLobby ? (
+                <form onSubmit={handleCreateRoom} className="space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    Crie uma sala para jogar só com os dispositivos da sua casa
+                  </p>
+                  <Input
+                    placeholder="Nome da sala"
+                    value={roomName}
+                    onChange={(e) => setRoomName(e.target.value)}
+                    data-testid="input-room-name"
+                  />
+                  <Input
+                    type="password"
+                    placeholder="Senha (opcional)"
+                    value={roomPassword}
+                    onChange={(e) => setRoomPassword(e.target.value)}
+                    data-testid="input-room-password"
+                  />
+                  <Button type="submit" className="w-full" disabled={!roomName.trim()} data-testid="button-create-room">
+                    <DoorOpen className="w-4 h-4 mr-2" />
+                    Criar Sala
+                  </Button>
+                </form>
+              ) : (
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    {isHost && <Crown className="w-4 h-4 text-yellow-500" />}
+                    <span>
+                      {isHost ? "Você é o anfitrião" : "Convidado"} · {currentRoom?.peerCount} peers
+                    </span>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => ghostClient.leaveRoom()} data-testid="button-leave-room">
+                    Sair da Sala
+                  </Button>
+                </div>
+              )}
+
+              {inLobby && openRooms.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Salas abertas</p>
+                  {openRooms.map((room) => (
+                    <div
+                      key={room.id}
+                      className="flex items-center gap-2 p-3 rounded-md bg-muted/50"
+                      data-testid={`room-item-${room.id}`}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-1">
+                          {room.hasPassword && <Lock className="w-3 h-3 text-muted-foreground" />}
+                          <span className="text-sm font-medium truncate">{room.name}</span>
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          {room.peerCount}/{room.maxPeers} peers
+                        </span>
+                      </div>
+                      {room.hasPassword && (
+                        <Input
+                          type="password"
+                          placeholder="Senha"
+                          className="w-24 h-8"
+                          value={joinPasswords[room.id] ?? ""}
+                          onChange={(e) => setJoinPasswords({ ...joinPasswords, [room.id]: e.target.value })}
+                        />
+                      )}
+                      <Button
+                        size="sm"
+                        onClick={() => ghostClient.joinRoom(room.id, joinPasswords[room.id])}
+                        data-testid={`button-join-room-${room.id}`}
+                      >
+                        Entrar
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-base font-medium">Capacidades do Dispositivo</CardTitle>
@@ -222,15 +421,68 @@ export default function GhostNetworkPage() {
                     <Ghost className="w-4 h-4 text-primary" />
                     <span className="text-sm font-medium">{peer.name}</span>
                   </div>
-                  <Badge variant="outline" className="text-xs">
-                    {peer.status}
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    {peerRtts.get(peer.id) != null && (
+                      <span className="text-xs text-muted-foreground">
+                        {peerRtts.get(peer.id)}ms
+                      </span>
+                    )}
+                    <Badge
+                      variant={connectionStates[peer.id] === "failed" ? "destructive" : "outline"}
+                      className="text-xs"
+                      data-testid={`peer-connection-state-${peer.id}`}
+                    >
+                      {connectionStates[peer.id] ? connectionStateLabels[connectionStates[peer.id]] : peer.status}
+                    </Badge>
+                  </div>
                 </div>
               ))}
             </CardContent>
           </Card>
         )}
 
+        {(availableGames.length > 0 || downloadList.length > 0) && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base font-medium">Jogos na Sala</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {downloadList.map((download) => (
+                <div key={download.gameId} className="space-y-1" data-testid={`download-${download.gameId}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium truncate">{download.gameName}</span>
+                    <Badge variant={download.status === "failed" ? "destructive" : "outline"} className="text-xs">
+                      {downloadStatusLabels[download.status]}
+                    </Badge>
+                  </div>
+                  <Progress value={download.total > 0 ? (download.have / download.total) * 100 : 0} />
+                  <p className="text-xs text-muted-foreground">
+                    {download.have}/{download.total} bundles · {download.inFlight} em transferência · {download.peers} peers
+                  </p>
+                </div>
+              ))}
+              {availableGames
+                .filter((game) => !downloads[game.gameId] || downloads[game.gameId].status === "failed")
+                .map((game) => (
+                  <div
+                    key={game.gameId}
+                    className="flex items-center justify-between gap-2 p-3 rounded-md bg-muted/50"
+                    data-testid={`available-game-${game.gameId}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{game.gameName}</p>
+                      <p className="text-xs text-muted-foreground">{game.peers} peers com o jogo</p>
+                    </div>
+                    <Button size="sm" onClick={() => handleDownload(game)} data-testid={`button-download-${game.gameId}`}>
+                      <Download className="w-4 h-4 mr-1" />
+                      Baixar
+                    </Button>
+                  </div>
+                ))}
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-base font-medium">Jogos Fantasma</CardTitle>
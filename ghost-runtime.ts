@@ -137,6 +137,7 @@ export class GhostRuntime {
       this.lastFpsUpdate = now;
       this.frameCount = 0;
       this.emit("stats", { fps: this.state.fps, frameTime: this.state.frameTime });
+      ghostClient.reportStats(this.state.fps);
     }
 
     // Run game logic
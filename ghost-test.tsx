@@ -12,7 +12,8 @@ import {
   Tv,
   Activity,
   Clock,
-  BarChart3
+  BarChart3,
+  GitBranch
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -21,6 +22,8 @@ import { Progress } from "@/components/ui/progress";
 import { StatusBar } from "@/components/status-bar";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { ghostDistributed, type DeviceScore, type DistributedMetrics } from "@/lib/ghost-distributed";
+import type { RolePlanChange, RolePlanEntry } from "@/lib/role-rebalancer";
+import type { LatencyStats } from "@/lib/latency-tracker";
 import { ghostClient } from "@/lib/ghost-client";
 
 export default function GhostTestPage() {
@@ -30,11 +33,28 @@ export default function GhostTestPage() {
   const [metrics, setMetrics] = useState<DistributedMetrics | null>(null);
   const [myRole, setMyRole] = useState<string>("display");
   const [testResults, setTestResults] = useState<string[]>([]);
-  const [latencyHistory, setLatencyHistory] = useState<number[]>([]);
+  const [latencyHistory, setLatencyHistory] = useState<Record<string, number[]>>({});
+  const [latencyStats, setLatencyStats] = useState<Record<string, LatencyStats>>({});
+  const [rolePlanHistory, setRolePlanHistory] = useState<RolePlanEntry[]>([]);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const isRunningRef = useRef(false);
 
   useEffect(() => {
+    // Test workload: every device in the test answers render tasks with a
+    // checksum of the payload it received
+    ghostDistributed.registerTaskHandler("render", async (data) => {
+      const bytes = new Uint8Array(data ?? new ArrayBuffer(0));
+      let checksum = 0;
+      for (let i = 0; i < bytes.length; i++) {
+        checksum = (checksum + bytes[i] * (i + 1)) % 65521;
+      }
+      return { result: { checksum, bytes: bytes.length } };
+    });
+
+    ghostDistributed.on("task-failed", ({ taskId, reason }) => {
+      addLog(`Tarefa ${taskId.slice(0, 8)} falhou: ${reason}`);
+    });
+
     ghostDistributed.on("initialized", () => {
       setIsConnected(true);
       addLog("Sistema Fantasma inicializado");
@@ -50,13 +70,30 @@ export default function GhostTestPage() {
       addLog(`Papel atribuído: ${role}${isMaster ? " (MESTRE)" : ""}`);
     });
 
-    ghostDistributed.on("master-elected", ({ masterId }) => {
-      addLog(`Mestre eleito: ${masterId.slice(0, 8)}...`);
+    ghostDistributed.on("role-plan-changed", () => {
+      setRolePlanHistory(ghostDistributed.getRolePlanHistory());
+    });
+
+    ghostDistributed.on("task-migrated", ({ taskId, peerId }) => {
+      addLog(`Tarefa ${taskId.slice(0, 8)} migrada de ${peerId.slice(0, 8)}...`);
+    });
+
+    ghostDistributed.on("master-elected", ({ masterId, term }) => {
+      addLog(`Mestre eleito: ${masterId.slice(0, 8)}... (mandato ${term})`);
+    });
+
+    ghostDistributed.on("master-stepped-down", ({ batteryLevel }) => {
+      addLog(`Bateria em ${batteryLevel}%, passando o papel de mestre adiante`);
     });
 
-    ghostDistributed.on("latency-measured", ({ peerId, latency }) => {
-      setLatencyHistory(prev => [...prev.slice(-19), latency]);
-      addLog(`Latência para ${peerId.slice(0, 8)}: ${latency.toFixed(2)}ms`);
+    ghostDistributed.on("master-lost", ({ masterId, term }) => {
+      addLog(`Mestre ${masterId.slice(0, 8)}... perdido no mandato ${term}, nova eleição`);
+    });
+
+    ghostDistributed.on("latency-measured", ({ peerId, stats }: { peerId: string; stats: LatencyStats }) => {
+      setLatencyHistory(prev => ({ ...prev, [peerId]: ghostDistributed.getLatencyHistory(peerId) }));
+      setLatencyStats(prev => ({ ...prev, [peerId]: stats }));
+      setDevices(ghostDistributed.getDeviceScores());
     });
 
     ghostDistributed.on("task-completed", ({ taskId }) => {
@@ -73,6 +110,7 @@ export default function GhostTestPage() {
         clearInterval(intervalRef.current);
       }
       ghostDistributed.stop();
+      ghostDistributed.unregisterTaskHandler("render");
     };
   }, []);
 
@@ -109,7 +147,7 @@ export default function GhostTestPage() {
       ghostDistributed.distributeTask({
         id: `task-${Date.now()}`,
         type: "render",
-        data: null,
+        data: crypto.getRandomValues(new Uint8Array(1024)).buffer,
         timestamp: Date.now(),
       });
       
@@ -147,6 +185,14 @@ export default function GhostTestPage() {
     }
   };
 
+  const describeChange = (change: RolePlanChange) => {
+    if (change.to === null) return `saiu (era ${getRoleLabel(change.from!)})`;
+    if (change.from === null) return `entrou como ${getRoleLabel(change.to)}`;
+    return `${getRoleLabel(change.from)} → ${getRoleLabel(change.to)}`;
+  };
+
+  const rolePlan = rolePlanHistory[rolePlanHistory.length - 1]?.plan ?? {};
+
   const getScoreColor = (score: number) => {
     if (score >= 70) return "text-green-500";
     if (score >= 50) return "text-yellow-500";
@@ -270,10 +316,12 @@ export default function GhostTestPage() {
                   data-testid={`device-${device.peerId}`}
                 >
                   <div className="flex items-center gap-3">
-                    {getRoleIcon(device.suggestedRole)}
+                    {getRoleIcon(rolePlan[device.peerId] ?? device.suggestedRole)}
                     <div>
                       <p className="font-medium">{device.peerName}</p>
-                      <p className="text-xs text-muted-foreground">{getRoleLabel(device.suggestedRole)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {getRoleLabel(rolePlan[device.peerId] ?? device.suggestedRole)}
+                      </p>
                     </div>
                   </div>
                   <div className="text-right">
@@ -281,8 +329,21 @@ export default function GhostTestPage() {
                       {device.score}
                     </p>
                     <p className="text-xs text-muted-foreground">
-                      {device.latency.toFixed(1)}ms
+                      {device.latency.toFixed(1)}ms · carga {Math.round(device.load * 100)}%
                     </p>
+                    {device.latencyStats && (
+                      <p className="text-xs text-muted-foreground">
+                        p95 {device.latencyStats.p95.toFixed(1)}ms · jitter {device.latencyStats.jitter.toFixed(1)}ms
+                      </p>
+                    )}
+                    {device.power && (
+                      <p className="text-xs text-muted-foreground">
+                        {device.power.batteryLevel !== null
+                          ? `bateria ${device.power.batteryLevel}%${device.power.charging ? " (carregando)" : ""}`
+                          : "bateria desconhecida"}
+                        {" · "}cpu {Math.round(device.power.cpuLoad * 100)}%
+                      </p>
+                    )}
                   </div>
                 </div>
               ))}
@@ -316,26 +377,52 @@ export default function GhostTestPage() {
                   <p className="text-xs text-muted-foreground">Frames Processados</p>
                   <p className="text-2xl font-bold">{metrics.framesProcessed}</p>
                 </div>
+                <div className="p-3 rounded-md bg-muted/50">
+                  <p className="text-xs text-muted-foreground">Tarefas Concluídas</p>
+                  <p className="text-2xl font-bold">{metrics.tasksCompleted}</p>
+                </div>
+                <div className="p-3 rounded-md bg-muted/50">
+                  <p className="text-xs text-muted-foreground">Tarefas com Falha</p>
+                  <p className="text-2xl font-bold">{metrics.failedTasks}</p>
+                </div>
               </div>
 
-              {latencyHistory.length > 0 && (
-                <div className="space-y-1">
-                  <p className="text-xs text-muted-foreground">Histórico de Latência</p>
-                  <div className="flex items-end gap-1 h-16">
-                    {latencyHistory.map((lat, i) => (
+              {Object.entries(latencyHistory).map(([peerId, history]) => {
+                const stats = latencyStats[peerId];
+                if (history.length === 0 || !stats) return null;
+                return (
+                  <div key={peerId} className="space-y-1" data-testid={`latency-chart-${peerId}`}>
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>Latência para {peerId.slice(0, 8)}</span>
+                      <span>
+                        média {stats.mean.toFixed(1)}ms · p95 {stats.p95.toFixed(1)}ms · jitter {stats.jitter.toFixed(1)}ms
+                      </span>
+                    </div>
+                    <div className="relative flex items-end gap-1 h-16">
+                      {history.map((lat, i) => (
+                        <div
+                          key={i}
+                          className="flex-1 bg-primary/60 rounded-t"
+                          style={{ height: `${Math.min(100, (lat / 100) * 100)}%` }}
+                        />
+                      ))}
                       <div
-                        key={i}
-                        className="flex-1 bg-primary/60 rounded-t"
-                        style={{ height: `${Math.min(100, (lat / 100) * 100)}%` }}
+                        className="absolute left-0 right-0 border-t border-dashed border-destructive/60"
+                        style={{ bottom: `${Math.min(100, (stats.p95 / 100) * 100)}%` }}
                       />
-                    ))}
-                  </div>
-                  <div className="flex justify-between text-xs text-muted-foreground">
-                    <span>0ms</span>
-                    <span>100ms+</span>
+                    </div>
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>0ms</span>
+                      <span>
+                        {stats.clockOffset !== null
+                          ? `relógio ${stats.clockOffset >= 0 ? "+" : ""}${stats.clockOffset.toFixed(1)}ms`
+                          : "relógio desconhecido"}
+                      </span>
+                      <span>100ms+</span>
+                    </div>
                   </div>
-                </div>
-              )}
+                );
+              })}
 
               {metrics.avgLatency > 16 && (
                 <div className="p-3 rounded-md bg-destructive/10 border border-destructive/20">
@@ -360,6 +447,35 @@ export default function GhostTestPage() {
           </Card>
         )}
 
+        {rolePlanHistory.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base font-medium flex items-center gap-2">
+                <GitBranch className="w-4 h-4" />
+                Plano de Papéis
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="max-h-64 overflow-y-auto space-y-3" data-testid="role-plan-timeline">
+                {rolePlanHistory.slice().reverse().map((entry, i) => (
+                  <div key={`${entry.at}-${i}`} className="border-l-2 border-primary/40 pl-3 space-y-1">
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(entry.at).toLocaleTimeString()} · {Object.keys(entry.plan).length} dispositivo(s)
+                    </p>
+                    {entry.changes.map((change) => (
+                      <div key={change.peerId} className="flex items-center gap-2 text-sm">
+                        {getRoleIcon(change.to ?? change.from!)}
+                        <span className="font-medium">{change.peerName}</span>
+                        <span className="text-muted-foreground">{describeChange(change)}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-base font-medium flex items-center gap-2">
@@ -10,6 +10,37 @@ export interface GhostPeer {
   lastSeen: number;
 }
 
+// Ghost peer as exposed by the REST API, with what the server measured
+export interface GhostPeerInfo extends GhostPeer {
+  rtt: number | null; // WebSocket ping/pong round trip, in ms
+  address: string | null;
+  roomId: string;
+}
+
+// Peers only see, signal and sync with peers in the same room. Every account
+// has a lobby of its own, where its peers start and go back to on leaving a
+// room, so separate households only meet in a room one of them created.
+const LOBBY_ROOM_PREFIX = "lobby:";
+
+export function lobbyRoomId(userId: string): string {
+  return `${LOBBY_ROOM_PREFIX}${userId}`;
+}
+
+export function isLobbyRoomId(roomId: string): boolean {
+  return roomId.startsWith(LOBBY_ROOM_PREFIX);
+}
+
+// Room as exposed to clients, never with the password hash
+export interface GhostRoomInfo {
+  id: string;
+  name: string;
+  hostPeerId: string | null; // null for a lobby
+  peerCount: number;
+  maxPeers: number | null; // null for a lobby, which has no limit
+  hasPassword: boolean;
+  createdAt: number;
+}
+
 export interface PeerCapabilities {
   hasGPU: boolean;
   hasWASM: boolean;
@@ -18,6 +49,18 @@ export interface PeerCapabilities {
   canRender: boolean;
   canCompute: boolean;
   canStore: boolean;
+  benchmark?: CapabilityBenchmark; // measured at join, see capability-benchmark.ts
+}
+
+// What the device measured, as opposed to what the browser reports
+export interface CapabilityBenchmark {
+  wasmIntMops: number; // million i32 operations per second
+  wasmFloatMflops: number; // million f64 operations per second
+  fillRateMpixels: number; // WebGL blended megapixels per second
+  storageWriteMBps: number; // IndexedDB sequential writes
+  downloadMbps: number; // from the Ghost server
+  uploadMbps: number; // to the Ghost server
+  measuredAt: number;
 }
 
 // Ghost Data Bundle - a chunk of transformed game data
@@ -42,21 +85,32 @@ export interface GhostGame {
   integrity: string; // Merkle root of all bundle hashes
 }
 
+export const peerCapabilitiesSchema = z.object({
+  hasGPU: z.boolean(),
+  hasWASM: z.boolean(),
+  maxMemory: z.number(),
+  bandwidth: z.number(),
+  canRender: z.boolean(),
+  canCompute: z.boolean(),
+  canStore: z.boolean(),
+  benchmark: z.object({
+    wasmIntMops: z.number().nonnegative(),
+    wasmFloatMflops: z.number().nonnegative(),
+    fillRateMpixels: z.number().nonnegative(),
+    storageWriteMBps: z.number().nonnegative(),
+    downloadMbps: z.number().nonnegative(),
+    uploadMbps: z.number().nonnegative(),
+    measuredAt: z.number(),
+  }).optional(),
+});
+
 // Signaling messages for WebRTC
 export const signalingMessageSchema = z.discriminatedUnion("type", [
   z.object({
     type: z.literal("join"),
-    peerId: z.string(),
+    peerId: z.string().optional(), // must match the id bound by the join token
     peerName: z.string().optional(),
-    capabilities: z.object({
-      hasGPU: z.boolean(),
-      hasWASM: z.boolean(),
-      maxMemory: z.number(),
-      bandwidth: z.number(),
-      canRender: z.boolean(),
-      canCompute: z.boolean(),
-      canStore: z.boolean(),
-    }).optional(),
+    capabilities: peerCapabilitiesSchema.optional(),
   }),
   z.object({
     type: z.literal("leave"),
@@ -87,6 +141,7 @@ export const signalingMessageSchema = z.discriminatedUnion("type", [
       name: z.string(),
       type: z.string(),
       status: z.string(),
+      capabilities: peerCapabilitiesSchema.optional(), // as measured by the peer
     })),
   }),
   z.object({
@@ -96,6 +151,7 @@ export const signalingMessageSchema = z.discriminatedUnion("type", [
       name: z.string(),
       type: z.string(),
       status: z.string(),
+      capabilities: peerCapabilitiesSchema.optional(), // as measured by the peer
     }),
   }),
   z.object({
@@ -106,12 +162,16 @@ export const signalingMessageSchema = z.discriminatedUnion("type", [
     type: z.literal("bundle-request"),
     bundleId: z.string(),
     from: z.string(),
+    gameId: z.string().optional(),
   }),
   z.object({
     type: z.literal("bundle-response"),
     bundleId: z.string(),
     to: z.string(),
+    from: z.string().optional(), // stamped by the server when relaying
     data: z.string(),
+    gameId: z.string().optional(),
+    totalBundles: z.number().int().positive().optional(), // bundles in the whole game
   }),
   z.object({
     type: z.literal("state-sync"),
@@ -119,10 +179,261 @@ export const signalingMessageSchema = z.discriminatedUnion("type", [
     state: z.string(),
     timestamp: z.number(),
   }),
+  z.object({
+    type: z.literal("stats-report"),
+    fps: z.number().min(0),
+  }),
+  z.object({
+    type: z.literal("room-create"),
+    name: z.string().trim().min(1).max(64),
+    password: z.string().min(1).optional(),
+    maxPeers: z.number().int().min(2).max(32).optional(),
+  }),
+  z.object({
+    type: z.literal("room-join"),
+    roomId: z.string(),
+    password: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("room-leave"),
+  }),
+  z.object({
+    type: z.literal("room-joined"),
+    room: z.custom<GhostRoomInfo>(),
+  }),
+  z.object({
+    type: z.literal("room-updated"),
+    room: z.custom<GhostRoomInfo>(),
+  }),
+  z.object({
+    type: z.literal("room-error"),
+    error: z.string(),
+  }),
 ]);
 
 export type SignalingMessage = z.infer<typeof signalingMessageSchema>;
 
+// Data channel protocol. Bump GHOST_PROTOCOL_VERSION on any change to
+// peerMessageSchema; raise the minimum once older peers can no longer be
+// understood. Both sides send a "hello" when the channel opens and talk at
+// the highest version they share.
+export const GHOST_PROTOCOL_VERSION = 6;
+export const GHOST_MIN_PROTOCOL_VERSION = 1;
+
+export const peerMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("hello"),
+    version: z.number().int().nonnegative(),
+    minVersion: z.number().int().nonnegative(),
+  }),
+  z.object({
+    type: z.literal("hello-reject"),
+    version: z.number().int().nonnegative(),
+    minVersion: z.number().int().nonnegative(),
+    reason: z.string(),
+  }),
+  z.object({
+    type: z.literal("latency-ping"),
+    timestamp: z.number(),
+    from: z.string(),
+  }),
+  z.object({
+    type: z.literal("latency-pong"),
+    originalTimestamp: z.number(),
+    from: z.string(),
+    // Since version 2: when the ping arrived and the pong left, on the
+    // answering peer's clock, for clock offset estimation
+    receivedAt: z.number().optional(),
+    sentAt: z.number().optional(),
+    load: z.number().nonnegative().optional(), // compute pool load, since version 5
+    // Since version 6: the answering device's power state, see device-status.ts
+    batteryLevel: z.number().min(0).max(100).nullable().optional(),
+    charging: z.boolean().nullable().optional(),
+    cpuLoad: z.number().min(0).max(1).optional(),
+  }),
+  z.object({
+    type: z.literal("task-assign"),
+    task: z.object({
+      id: z.string(),
+      type: z.string(),
+      dataSize: z.number().nonnegative(),
+      timestamp: z.number(),
+      deadlineMs: z.number().positive().optional(), // since version 4
+    }),
+    data: z.string().nullable().optional(), // base64 payload, since version 4
+  }),
+  z.object({
+    type: z.literal("task-result"),
+    taskId: z.string(),
+    result: z.record(z.any()),
+    // Since version 4: whether the handler succeeded, and its binary output
+    ok: z.boolean().optional(),
+    error: z.string().optional(),
+    data: z.string().nullable().optional(),
+  }),
+  // Since version 5: the requester gave up on the task (deadline, stop)
+  z.object({
+    type: z.literal("task-cancel"),
+    taskId: z.string(),
+  }),
+  z.object({
+    type: z.literal("frame-data"),
+    frame: z.object({
+      id: z.number(),
+      rendered: z.boolean(),
+      timestamp: z.number(),
+    }),
+  }),
+  z.object({
+    type: z.literal("render-request"),
+    frameId: z.number(),
+    timestamp: z.number(),
+  }),
+  // Since version 3, see master-election.ts
+  z.object({
+    type: z.literal("election-heartbeat"),
+    term: z.number().int().nonnegative(),
+    score: z.number(),
+    masterId: z.string().nullable(),
+  }),
+  z.object({
+    type: z.literal("election-vote"),
+    term: z.number().int().positive(),
+    candidateId: z.string(),
+  }),
+]);
+
+export type PeerMessage = z.infer<typeof peerMessageSchema>;
+
+// Control messages of bundle-transfer.ts and bundle-swarm.ts share the
+// channel but are keyed by "kind" and "action" instead of "type"
+const BASE64 = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+const bundleMetaSchema = z.object({
+  id: z.string(),
+  gameId: z.string(),
+  type: z.enum(["wasm", "asset", "state", "shader"]),
+  hash: z.string().regex(/^[0-9a-f]{64}$/),
+  size: z.number().int().nonnegative(),
+  dependencies: z.array(z.string()),
+});
+
+const ghostGameSchema = z.object({
+  id: z.string(),
+  originalName: z.string(),
+  bundles: z.array(z.string()),
+  entryPoint: z.string(),
+  totalSize: z.number().nonnegative(),
+  status: z.enum(["transforming", "ready", "distributing", "running"]),
+  integrity: z.string(),
+});
+
+export const bundleTransferMessageSchema = z.discriminatedUnion("action", [
+  z.object({
+    kind: z.literal("bundle-transfer"),
+    action: z.literal("request"),
+    bundleId: z.string(),
+    offset: z.number().int().nonnegative(),
+  }),
+  z.object({
+    kind: z.literal("bundle-transfer"),
+    action: z.literal("cancel"),
+    bundleId: z.string(),
+  }),
+  z.object({
+    kind: z.literal("bundle-transfer"),
+    action: z.literal("error"),
+    bundleId: z.string(),
+    error: z.string(),
+  }),
+]);
+
+export const bundleSwarmMessageSchema = z.discriminatedUnion("action", [
+  z.object({
+    kind: z.literal("bundle-swarm"),
+    action: z.literal("have"),
+    gameId: z.string(),
+    gameName: z.string(),
+    bitmap: z.string().regex(BASE64), // bit i = game.bundles[i]
+  }),
+  z.object({
+    kind: z.literal("bundle-swarm"),
+    action: z.literal("manifest-request"),
+    gameId: z.string(),
+  }),
+  z.object({
+    kind: z.literal("bundle-swarm"),
+    action: z.literal("manifest"),
+    manifest: z
+      .object({
+        game: ghostGameSchema,
+        bundles: z.array(bundleMetaSchema), // in game.bundles order
+      })
+      .refine(
+        ({ game, bundles }) =>
+          bundles.length === game.bundles.length && bundles.every((bundle, i) => bundle.id === game.bundles[i]),
+        { message: "Manifest bundles do not match the game" },
+      ),
+  }),
+]);
+
+export const peerControlMessageSchema = z.union([bundleTransferMessageSchema, bundleSwarmMessageSchema]);
+
+export type BundleTransferMessage = z.infer<typeof bundleTransferMessageSchema>;
+export type BundleSwarmMessage = z.infer<typeof bundleSwarmMessageSchema>;
+export type PeerControlMessage = z.infer<typeof peerControlMessageSchema>;
+
+// The version two peers talk at, or null if their supported ranges do not overlap
+export function negotiateProtocolVersion(remoteVersion: number, remoteMinVersion: number): number | null {
+  const version = Math.min(GHOST_PROTOCOL_VERSION, remoteVersion);
+  return version >= Math.max(GHOST_MIN_PROTOCOL_VERSION, remoteMinVersion) ? version : null;
+}
+
+// Issued by POST /api/ghost/token and passed as ?token= on the /ghost upgrade
+export interface GhostJoinToken {
+  token: string;
+  peerId: string; // assigned by the server, the socket is bound to it
+  expiresAt: number;
+  resumeToken: string; // send back on reconnect to keep the same peer id
+}
+
+// Served by GET /api/ghost/ice-config, fed straight into RTCPeerConnection
+export interface GhostIceServer {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface GhostIceConfig {
+  iceServers: GhostIceServer[];
+  lanOnly: boolean; // only host candidates are gathered and sent
+}
+
+export const ghostTokenRequestSchema = z.object({
+  resumeToken: z.string().optional(),
+});
+
+// Presence announcement posted to /api/network/broadcast
+export const discoveryBroadcastSchema = z.object({
+  peerId: z.string(),
+  peerName: z.string().optional(),
+  capabilities: peerCapabilitiesSchema.optional(),
+});
+
+export type DiscoveryBroadcast = z.infer<typeof discoveryBroadcastSchema>;
+
+// Live entry returned by /api/network/discover
+export interface DiscoveredPeer {
+  id: string;
+  name: string;
+  kind: 'peer' | 'server'; // a browser peer, or another Sistema Fantasma server on the LAN
+  capabilities: PeerCapabilities | null;
+  address: string | null;
+  url: string | null; // servers only
+  lastSeen: number;
+  expiresAt: number;
+}
+
 // Ghost Network Stats
 export interface GhostNetworkStats {
   totalPeers: number;
@@ -133,6 +444,22 @@ export interface GhostNetworkStats {
   gamesReady: number;
 }
 
+// Per-game delivery of bundles relayed by the signaling server, exposed by
+// /api/ghost/distribution
+export interface GhostGameDistribution {
+  gameId: string;
+  roomId: string; // distributions are tracked per room
+  totalBundles: number | null; // null until a response says how many there are
+  bundlesDelivered: number;
+  bytesDelivered: number;
+  peers: {
+    peerId: string;
+    bundlesReceived: number;
+    progress: number | null; // 0-1, null while totalBundles is unknown
+  }[];
+  ready: boolean; // at least one peer has every bundle
+}
+
 // Ghost Runtime State
 export interface GhostRuntimeState {
   currentGame: GhostGame | null;
@@ -0,0 +1,41 @@
+import type { GhostIceConfig, GhostIceServer } from "@shared/ghost-types";
+
+function splitUrls(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter((url) => url.length > 0);
+}
+
+// No public STUN servers by default: peers on the same Wi-Fi connect through
+// host candidates, and nothing about the LAN is sent to an outside service.
+// Self-hosted servers are opt-in:
+//   GHOST_STUN_URLS=stun:192.168.0.2:3478
+//   GHOST_TURN_URLS=turn:192.168.0.2:3478?transport=udp
+//   GHOST_TURN_USERNAME / GHOST_TURN_CREDENTIAL
+export function configuredIceServers(env: NodeJS.ProcessEnv = process.env): GhostIceServer[] {
+  const servers: GhostIceServer[] = [];
+
+  const stunUrls = splitUrls(env.GHOST_STUN_URLS);
+  if (stunUrls.length > 0) {
+    servers.push({ urls: stunUrls });
+  }
+
+  const turnUrls = splitUrls(env.GHOST_TURN_URLS);
+  if (turnUrls.length > 0) {
+    servers.push({
+      urls: turnUrls,
+      username: env.GHOST_TURN_USERNAME,
+      credential: env.GHOST_TURN_CREDENTIAL,
+    });
+  }
+
+  return servers;
+}
+
+export function buildIceConfig(lanOnly: boolean): GhostIceConfig {
+  return {
+    iceServers: lanOnly ? [] : configuredIceServers(),
+    lanOnly,
+  };
+}
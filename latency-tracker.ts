@@ -0,0 +1,111 @@
+// Rolling round-trip statistics per peer, fed by latency-ping/latency-pong.
+//
+// A probe records four wall-clock timestamps (ms since the epoch):
+//
+//   t0  ping sent (us)        t1  ping received (peer)
+//   t3  pong received (us)    t2  pong sent (peer)
+//
+// rtt = (t3 - t0) - (t2 - t1) leaves out the time the peer spent answering,
+// and offset = ((t1 - t0) + (t2 - t3)) / 2 is how far the peer's clock is
+// ahead of ours, assuming both directions take equally long (as NTP does).
+
+const WINDOW_SIZE = 20;
+
+export interface LatencySample {
+  rtt: number;
+  offset: number | null; // null when the peer did not report its timestamps
+  at: number;
+}
+
+export interface LatencyStats {
+  samples: number;
+  last: number;
+  mean: number;
+  p95: number;
+  jitter: number; // mean difference between consecutive round trips
+  clockOffset: number | null; // peer clock minus ours, in ms
+  updatedAt: number;
+}
+
+// Wall-clock time with sub-millisecond resolution where the platform has it
+export function preciseNow(): number {
+  if (typeof performance !== "undefined" && performance.timeOrigin) {
+    return performance.timeOrigin + performance.now();
+  }
+  return Date.now();
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+export class LatencyTracker {
+  private windows: Map<string, LatencySample[]> = new Map();
+
+  constructor(private windowSize: number = WINDOW_SIZE) {}
+
+  // t1/t2 are optional for peers on protocol version 1, which only echo t0
+  record(peerId: string, t0: number, t3: number, t1?: number, t2?: number): LatencySample {
+    const hasPeerTimes = t1 !== undefined && t2 !== undefined;
+    const sample: LatencySample = {
+      rtt: Math.max(0, hasPeerTimes ? (t3 - t0) - (t2! - t1!) : t3 - t0),
+      offset: hasPeerTimes ? ((t1! - t0) + (t2! - t3)) / 2 : null,
+      at: t3,
+    };
+
+    let window = this.windows.get(peerId);
+    if (!window) {
+      window = [];
+      this.windows.set(peerId, window);
+    }
+    window.push(sample);
+    if (window.length > this.windowSize) {
+      window.shift();
+    }
+    return sample;
+  }
+
+  getStats(peerId: string): LatencyStats | null {
+    const window = this.windows.get(peerId);
+    if (!window || window.length === 0) return null;
+
+    const rtts = window.map((s) => s.rtt);
+    const sorted = [...rtts].sort((a, b) => a - b);
+
+    let jitter = 0;
+    for (let i = 1; i < rtts.length; i++) {
+      jitter += Math.abs(rtts[i] - rtts[i - 1]);
+    }
+    if (rtts.length > 1) jitter /= rtts.length - 1;
+
+    // The offset of the fastest round trips is the least skewed by queueing
+    const withOffset = window.filter((s) => s.offset !== null).sort((a, b) => a.rtt - b.rtt);
+    const best = withOffset.slice(0, Math.max(1, Math.ceil(withOffset.length / 4)));
+    const clockOffset = withOffset.length > 0
+      ? best.reduce((sum, s) => sum + s.offset!, 0) / best.length
+      : null;
+
+    return {
+      samples: window.length,
+      last: rtts[rtts.length - 1],
+      mean: rtts.reduce((sum, rtt) => sum + rtt, 0) / rtts.length,
+      p95: percentile(sorted, 95),
+      jitter,
+      clockOffset,
+      updatedAt: window[window.length - 1].at,
+    };
+  }
+
+  getHistory(peerId: string): LatencySample[] {
+    return [...(this.windows.get(peerId) || [])];
+  }
+
+  forget(peerId: string) {
+    this.windows.delete(peerId);
+  }
+
+  clear() {
+    this.windows.clear();
+  }
+}
@@ -0,0 +1,181 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MasterElection, type ElectionMessage } from "./master-election";
+
+// A room of MasterElection instances on a simulated network: messages are
+// queued and delivered on flush(), a partition drops everything between its
+// sides, and time only moves when the test advances the shared clock.
+
+const HEARTBEAT_INTERVAL_MS = 1000;
+// Without the settling time of start(), the first round may split the vote
+// and only the retry after the election timeout succeeds
+const FIRST_ELECTION_MS = 6000;
+
+class SimulatedRoom {
+  now = 0;
+  nodes: Map<string, MasterElection> = new Map();
+  private scores: Map<string, number> = new Map();
+  private queue: { from: string; to: string; message: ElectionMessage }[] = [];
+  private sides: Map<string, number> | null = null; // peer id -> side, while partitioned
+
+  constructor(scores: Record<string, number>) {
+    Object.entries(scores).forEach(([peerId, score]) => this.add(peerId, score));
+    const peerIds = Array.from(this.nodes.keys());
+    this.nodes.forEach((node) => node.setMembership(peerIds));
+  }
+
+  add(peerId: string, score: number): MasterElection {
+    this.scores.set(peerId, score);
+    const node = new MasterElection(
+      {
+        getPeerId: () => peerId,
+        broadcast: (message) => {
+          Array.from(this.nodes.keys())
+            .filter((to) => to !== peerId)
+            .forEach((to) => this.queue.push({ from: peerId, to, message }));
+        },
+      },
+      () => this.scores.get(peerId)!,
+      () => this.now,
+    );
+    this.nodes.set(peerId, node);
+    return node;
+  }
+
+  partition(...sides: string[][]) {
+    this.sides = new Map();
+    sides.forEach((side, index) => side.forEach((peerId) => this.sides!.set(peerId, index)));
+  }
+
+  heal() {
+    this.sides = null;
+  }
+
+  // The signaling server dropped a peer from the room
+  leave(peerId: string) {
+    this.nodes.delete(peerId);
+    this.nodes.forEach((node) => node.setMembership(Array.from(this.nodes.keys())));
+  }
+
+  flush() {
+    while (this.queue.length > 0) {
+      const { from, to, message } = this.queue.shift()!;
+      const node = this.nodes.get(to);
+      if (!node || !this.nodes.has(from)) continue;
+      if (this.sides && this.sides.get(from) !== this.sides.get(to)) continue;
+      node.handleMessage(from, message);
+    }
+  }
+
+  // Every node ticks once per heartbeat interval, in a fixed order
+  run(ms: number) {
+    for (let elapsed = 0; elapsed < ms; elapsed += HEARTBEAT_INTERVAL_MS) {
+      this.now += HEARTBEAT_INTERVAL_MS;
+      this.nodes.forEach((node) => {
+        node.tick();
+        this.flush();
+      });
+    }
+  }
+
+  masters(peerIds: string[] = Array.from(this.nodes.keys())): (string | null)[] {
+    return peerIds.map((peerId) => this.nodes.get(peerId)!.getMasterId());
+  }
+}
+
+describe("MasterElection", () => {
+  it("agrees on the highest score", () => {
+    const room = new SimulatedRoom({ a: 10, b: 50, c: 30 });
+    room.run(FIRST_ELECTION_MS);
+
+    assert.deepEqual(room.masters(), ["b", "b", "b"]);
+    const terms = new Set(Array.from(room.nodes.values()).map((node) => node.getTerm()));
+    assert.equal(terms.size, 1);
+  });
+
+  it("breaks score ties by the lowest peer id", () => {
+    const room = new SimulatedRoom({ c: 40, a: 40, b: 40 });
+    room.run(FIRST_ELECTION_MS);
+
+    assert.deepEqual(room.masters(), ["a", "a", "a"]);
+  });
+
+  it("re-elects in a higher term when the master goes silent", () => {
+    const room = new SimulatedRoom({ a: 10, b: 50, c: 30 });
+    room.run(FIRST_ELECTION_MS);
+    const term = room.nodes.get("a")!.getTerm();
+
+    // b is cut off from everyone, as if its tab froze
+    room.partition(["a", "c"], ["b"]);
+    room.run(10000);
+
+    assert.deepEqual(room.masters(["a", "c"]), ["c", "c"]);
+    assert.ok(room.nodes.get("a")!.getTerm() > term);
+  });
+
+  it("only lets the majority side of a partition elect", () => {
+    const room = new SimulatedRoom({ a: 10, b: 20, c: 30, d: 40, e: 50 });
+    room.run(FIRST_ELECTION_MS);
+    assert.deepEqual(room.masters(), ["e", "e", "e", "e", "e"]);
+
+    room.partition(["a", "b", "c"], ["d", "e"]);
+    room.run(10000);
+
+    // e lost its majority: it is no master anymore, and d cannot elect either
+    assert.deepEqual(room.masters(["a", "b", "c"]), ["c", "c", "c"]);
+    assert.deepEqual(room.masters(["d", "e"]), [null, null]);
+  });
+
+  it("elects nobody on an even split", () => {
+    const room = new SimulatedRoom({ a: 10, b: 20, c: 30, d: 40 });
+    room.run(FIRST_ELECTION_MS);
+
+    room.partition(["a", "b"], ["c", "d"]);
+    room.run(10000);
+
+    assert.deepEqual(room.masters(), [null, null, null, null]);
+  });
+
+  it("brings the minority side back under the majority's master when the partition heals", () => {
+    const room = new SimulatedRoom({ a: 10, b: 20, c: 30, d: 40, e: 50 });
+    room.run(FIRST_ELECTION_MS);
+    room.partition(["a", "b", "c"], ["d", "e"]);
+    room.run(10000);
+
+    room.heal();
+    room.run(10000);
+
+    // No new election just because e is back: it follows c like everyone
+    assert.deepEqual(room.masters(), ["c", "c", "c", "c", "c"]);
+    const terms = new Set(Array.from(room.nodes.values()).map((node) => node.getTerm()));
+    assert.equal(terms.size, 1);
+  });
+
+  it("lets the remaining peers elect once the unreachable ones left the room", () => {
+    const room = new SimulatedRoom({ a: 10, b: 20, c: 30, d: 40 });
+    room.run(FIRST_ELECTION_MS);
+    room.partition(["a", "b"], ["c", "d"]);
+    room.run(5000);
+    assert.deepEqual(room.masters(["a", "b"]), [null, null]);
+
+    // The signaling server evicted c and d after its grace period
+    room.leave("c");
+    room.leave("d");
+    room.run(5000);
+
+    assert.deepEqual(room.masters(), ["b", "b"]);
+  });
+
+  it("follows the existing master when joining late", () => {
+    const room = new SimulatedRoom({ a: 10, b: 50 });
+    room.run(FIRST_ELECTION_MS);
+    const term = room.nodes.get("a")!.getTerm();
+
+    room.add("c", 30);
+    room.nodes.forEach((node) => node.setMembership(["a", "b", "c"]));
+    room.run(FIRST_ELECTION_MS);
+
+    assert.deepEqual(room.masters(), ["b", "b", "b"]);
+    assert.equal(room.nodes.get("c")!.getTerm(), term);
+  });
+});
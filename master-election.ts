@@ -0,0 +1,313 @@
+// Master election shared by every peer of a room.
+//
+// Every peer broadcasts a heartbeat with its current term, its own score and
+// the master it follows. Scores are self-reported (see GhostDistributed's
+// electionScore), so all peers rank candidates the same way: highest score
+// first, lowest peer id on a tie.
+//
+// An election starts when there is no master yet or the master stopped
+// sending heartbeats. The peer bumps the term and broadcasts a vote for the
+// best candidate it can see; everyone tallies the same votes, and the
+// candidate with votes from a majority of the membership becomes master for
+// that term. Higher terms always win.
+//
+// The membership is everyone in the room, reachable or not: a peer is only
+// dropped from it once it left the room (or runs a protocol without
+// elections). A peer that merely went silent still counts, so when the room
+// is split, only the side holding a majority elects a master and the other
+// side stays without one until the partition heals or the signaling server
+// evicts the peers it can no longer reach. An even split elects nobody.
+
+const HEARTBEAT_INTERVAL_MS = 1000;
+// Missing heartbeats for this long means the peer (or the master) is gone
+const MEMBER_TIMEOUT_MS = 3500;
+// A term without a majority is abandoned after this long
+const ELECTION_TIMEOUT_MS = 3000;
+// Heartbeats to listen to before the first election, so it sees the room
+const SETTLE_MS = 2000;
+
+export type ElectionMessage =
+  | { type: "election-heartbeat"; term: number; score: number; masterId: string | null }
+  | { type: "election-vote"; term: number; candidateId: string };
+
+export interface ElectionState {
+  term: number;
+  masterId: string | null;
+  members: { peerId: string; score: number }[]; // live members, self included
+  membership: number; // room members a majority is counted over, self included
+}
+
+interface Member {
+  score: number;
+  lastSeen: number;
+}
+
+type ElectionHandler = (event: any) => void;
+
+// How the election reaches the other peers; GhostDistributed sends over the
+// data channels, a test can pass messages around directly
+export interface ElectionNetwork {
+  getPeerId(): string;
+  broadcast(message: ElectionMessage): void;
+}
+
+export function compareCandidates(a: { peerId: string; score: number }, b: { peerId: string; score: number }): number {
+  if (a.score !== b.score) return b.score - a.score;
+  return a.peerId < b.peerId ? -1 : a.peerId > b.peerId ? 1 : 0;
+}
+
+export class MasterElection {
+  private term: number = 0;
+  private masterId: string | null = null;
+  private members: Map<string, Member> = new Map(); // live ones
+  private membership: Set<string> = new Set(); // everyone in the room but us
+  private votes: Map<string, string> = new Map(); // voter -> candidate, for the current term
+  private electionStartedAt: number | null = null;
+  private startedAt: number | null = null;
+  private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  private handlers: Map<string, ElectionHandler[]> = new Map();
+
+  constructor(
+    private network: ElectionNetwork,
+    private getScore: () => number,
+    private now: () => number = Date.now,
+  ) {}
+
+  start() {
+    if (this.heartbeatInterval) return;
+    this.startedAt = this.now();
+    this.heartbeatInterval = setInterval(() => this.tick(), HEARTBEAT_INTERVAL_MS);
+    this.tick();
+  }
+
+  stop() {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+    this.members.clear();
+    this.membership.clear();
+    this.votes.clear();
+    this.electionStartedAt = null;
+    this.startedAt = null;
+    this.setMaster(null);
+  }
+
+  // One heartbeat period: announce ourselves, drop silent members, and start
+  // or retry an election when needed
+  tick() {
+    this.network.broadcast({
+      type: "election-heartbeat",
+      term: this.term,
+      score: this.getScore(),
+      masterId: this.masterId,
+    });
+
+    const now = this.now();
+    Array.from(this.members.entries()).forEach(([peerId, member]) => {
+      if (now - member.lastSeen > MEMBER_TIMEOUT_MS) {
+        this.members.delete(peerId);
+      }
+    });
+
+    const masterLost = this.masterId !== null
+      && this.masterId !== this.network.getPeerId()
+      && !this.members.has(this.masterId);
+    // A master cut off from the majority steps down, the majority side is
+    // electing another one
+    const isolated = this.masterId === this.network.getPeerId()
+      && this.liveMembers().length < this.majority();
+    if (masterLost || isolated) {
+      this.setMaster(null);
+    }
+
+    const settling = this.startedAt !== null && now - this.startedAt < SETTLE_MS;
+    if (this.masterId === null && !settling) {
+      const stalled = this.electionStartedAt !== null && now - this.electionStartedAt > ELECTION_TIMEOUT_MS;
+      if (this.electionStartedAt === null || stalled) {
+        this.startElection(this.term + 1);
+      }
+    }
+  }
+
+  // Hands the master role over when another member now ranks above us, e.g.
+  // after our score dropped with the battery. Returns whether it did.
+  stepDown(): boolean {
+    if (this.masterId === null || this.masterId !== this.network.getPeerId()) return false;
+    const best = this.liveMembers().sort(compareCandidates)[0];
+    if (best.peerId === this.masterId) return false;
+    this.startElection(this.term + 1);
+    return true;
+  }
+
+  // The room as the signaling server lists it. Members missing from the list
+  // left the room and no longer count towards a majority.
+  setMembership(peerIds: string[]) {
+    const self = this.network.getPeerId();
+    const listed = new Set(peerIds.filter((peerId) => peerId !== self));
+    Array.from(this.membership)
+      .filter((peerId) => !listed.has(peerId))
+      .forEach((peerId) => this.removeMember(peerId));
+    listed.forEach((peerId) => this.membership.add(peerId));
+  }
+
+  // A peer left the room, or cannot take part in elections
+  removeMember(peerId: string) {
+    this.membership.delete(peerId);
+    this.disconnectMember(peerId);
+  }
+
+  // A peer's data channel went away: no need to wait for the timeout. It still
+  // counts towards a majority, it may only be on the other side of a partition.
+  disconnectMember(peerId: string) {
+    if (!this.members.delete(peerId)) return;
+    if (peerId === this.masterId) {
+      this.setMaster(null);
+      this.startElection(this.term + 1);
+    }
+  }
+
+  handleMessage(from: string, message: ElectionMessage) {
+    this.membership.add(from);
+    if (message.type === "election-heartbeat") {
+      this.members.set(from, { score: message.score, lastSeen: this.now() });
+
+      if (message.term > this.term) {
+        // Someone is ahead: follow its term and, if it has one, its master
+        this.adoptTerm(message.term);
+        if (message.masterId) this.setMaster(message.masterId);
+      } else if (message.term === this.term && message.masterId) {
+        if (this.masterId === null) {
+          this.setMaster(message.masterId);
+        } else if (message.masterId !== this.masterId) {
+          // Two masters in the same term (a healed partition): elect again
+          this.startElection(this.term + 1);
+        }
+      }
+      return;
+    }
+
+    // election-vote
+    const voter = this.members.get(from);
+    if (voter) voter.lastSeen = this.now();
+    if (message.term < this.term) return;
+    if (message.term > this.term) {
+      this.adoptTerm(message.term);
+    }
+    if (!this.votes.has(this.network.getPeerId())) {
+      this.vote();
+    }
+    this.votes.set(from, message.candidateId);
+    this.tally();
+  }
+
+  private startElection(term: number) {
+    this.adoptTerm(term);
+    this.emit("election-started", { term });
+    this.vote();
+    this.tally();
+  }
+
+  private adoptTerm(term: number) {
+    this.term = term;
+    this.votes.clear();
+    this.electionStartedAt = this.now();
+    this.setMaster(null);
+  }
+
+  private vote() {
+    const candidate = this.liveMembers().sort(compareCandidates)[0];
+    this.votes.set(this.network.getPeerId(), candidate.peerId);
+    this.network.broadcast({ type: "election-vote", term: this.term, candidateId: candidate.peerId });
+  }
+
+  private tally() {
+    if (this.masterId !== null) return;
+
+    const majority = this.majority();
+    const counts = new Map<string, number>();
+    Array.from(this.votes.values()).forEach((candidateId) => {
+      counts.set(candidateId, (counts.get(candidateId) || 0) + 1);
+    });
+
+    for (const [candidateId, count] of Array.from(counts.entries())) {
+      if (count >= majority) {
+        this.electionStartedAt = null;
+        this.setMaster(candidateId);
+        return;
+      }
+    }
+  }
+
+  private majority(): number {
+    return Math.floor(this.membershipSize() / 2) + 1;
+  }
+
+  private membershipSize(): number {
+    return new Set([...Array.from(this.membership), ...Array.from(this.members.keys())]).size + 1;
+  }
+
+  private liveMembers(): { peerId: string; score: number }[] {
+    return [
+      { peerId: this.network.getPeerId(), score: this.getScore() },
+      ...Array.from(this.members.entries()).map(([peerId, member]) => ({ peerId, score: member.score })),
+    ];
+  }
+
+  // Every change of master goes through here, so listeners hear about each
+  // one: "master-lost" whenever the master is gone, whatever the reason
+  // (silence, isolation, a newer term), and "master-elected" for the next
+  private setMaster(masterId: string | null) {
+    if (masterId === this.masterId) return;
+    const previous = this.masterId;
+    this.masterId = masterId;
+    if (previous !== null) {
+      this.emit("master-lost", { term: this.term, masterId: previous });
+    }
+    if (masterId !== null) {
+      this.electionStartedAt = null;
+      this.emit("master-elected", { term: this.term, masterId });
+    }
+  }
+
+  getState(): ElectionState {
+    return {
+      term: this.term,
+      masterId: this.masterId,
+      members: this.liveMembers().sort(compareCandidates),
+      membership: this.membershipSize(),
+    };
+  }
+
+  getMasterId(): string | null {
+    return this.masterId;
+  }
+
+  getTerm(): number {
+    return this.term;
+  }
+
+  on(event: string, handler: ElectionHandler) {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, []);
+    }
+    this.handlers.get(event)!.push(handler);
+  }
+
+  off(event: string, handler: ElectionHandler) {
+    const handlers = this.handlers.get(event);
+    if (handlers) {
+      const index = handlers.indexOf(handler);
+      if (index !== -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  private emit(event: string, data: any) {
+    const handlers = this.handlers.get(event);
+    if (handlers) {
+      handlers.forEach((handler) => handler(data));
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import type { NetworkStats } from "@shared/schema";
+import type { GhostNetwork } from "./ghost-network";
+
+// Same thresholds the StatusBar uses to colour the latency
+function latencyStatus(latency: number): NetworkStats["status"] {
+  if (latency > 10) return "poor";
+  if (latency > 7) return "fair";
+  if (latency > 4) return "good";
+  return "excellent";
+}
+
+function worse(a: NetworkStats["status"], b: NetworkStats["status"]): NetworkStats["status"] {
+  const order: NetworkStats["status"][] = ["excellent", "good", "fair", "poor"];
+  return order[Math.max(order.indexOf(a), order.indexOf(b))];
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+// Builds the NetworkStats shown in the StatusBar from what the ghost
+// signaling server actually measured: ping/pong RTTs, FPS reported by the
+// peers running the session and bytes relayed over the last few seconds.
+// Only the rooms the account has a peer in count, not other households.
+export function aggregateNetworkStats(
+  ghostNet: GhostNetwork | null,
+  userId: string,
+  sessionActive: boolean,
+): NetworkStats {
+  if (!ghostNet) {
+    return { latency: 0, fps: 0, connectedDevices: 0, totalBandwidth: 0, status: "good" };
+  }
+
+  const { rtts, fpsReports, bandwidthMbps, activePeers } = ghostNet.getMeasurementsForUser(userId);
+  const latency = Math.round(average(rtts));
+  const fps = sessionActive ? Math.round(average(fpsReports)) : 0;
+
+  // Nothing measured yet: no basis for a verdict either way
+  let status: NetworkStats["status"] = rtts.length > 0 ? latencyStatus(latency) : "good";
+  if (sessionActive && fpsReports.length > 0) {
+    if (fps < 30) status = worse(status, "poor");
+    else if (fps < 50) status = worse(status, "fair");
+  }
+
+  return {
+    latency,
+    fps,
+    connectedDevices: activePeers,
+    totalBandwidth: Math.round(bandwidthMbps * 100) / 100,
+    status,
+  };
+}
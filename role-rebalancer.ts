@@ -0,0 +1,113 @@
+import type { PeerCapabilities } from "@shared/ghost-types";
+import type { DeviceRole } from "./ghost-distributed";
+
+// Keeps the role plan of the room (which device does what) and reports what
+// changed each time it is recomputed. Roles follow score thresholds, so a
+// device hovering around one would flip back and forth on every latency
+// probe; a role only changes once the score is clear of the threshold by
+// HYSTERESIS points.
+
+const HYSTERESIS = 5;
+const HISTORY_SIZE = 50;
+
+export interface PlannedDevice {
+  peerId: string;
+  peerName: string;
+  score: number;
+  capabilities: PeerCapabilities;
+}
+
+export interface RolePlanChange {
+  peerId: string;
+  peerName: string;
+  from: DeviceRole | null; // null: the device just joined
+  to: DeviceRole | null; // null: the device left
+  reason: "joined" | "left" | "master" | "score";
+}
+
+export interface RolePlanEntry {
+  at: number;
+  changes: RolePlanChange[];
+  plan: Record<string, DeviceRole>;
+}
+
+export class RoleRebalancer<D extends PlannedDevice = PlannedDevice> {
+  private plan: Map<string, DeviceRole> = new Map();
+  private names: Map<string, string> = new Map();
+  private history: RolePlanEntry[] = [];
+
+  constructor(private suggestRole: (device: D, score: number) => DeviceRole) {}
+
+  // Recomputes every device's role; returns the diff, or null if nothing changed
+  update(devices: D[], masterId: string | null): RolePlanEntry | null {
+    const next = new Map<string, DeviceRole>();
+    devices.forEach((device) => {
+      next.set(device.peerId, this.roleFor(device, masterId));
+      this.names.set(device.peerId, device.peerName);
+    });
+
+    const changes: RolePlanChange[] = [];
+    next.forEach((role, peerId) => {
+      const previous = this.plan.get(peerId) ?? null;
+      if (previous === role) return;
+      changes.push({
+        peerId,
+        peerName: this.names.get(peerId) || peerId,
+        from: previous,
+        to: role,
+        reason: previous === null ? "joined" : previous === "master" || role === "master" ? "master" : "score",
+      });
+    });
+    this.plan.forEach((role, peerId) => {
+      if (next.has(peerId)) return;
+      changes.push({ peerId, peerName: this.names.get(peerId) || peerId, from: role, to: null, reason: "left" });
+      this.names.delete(peerId);
+    });
+
+    this.plan = next;
+    if (changes.length === 0) return null;
+
+    const entry: RolePlanEntry = { at: Date.now(), changes, plan: Object.fromEntries(next) };
+    this.history.push(entry);
+    if (this.history.length > HISTORY_SIZE) {
+      this.history.shift();
+    }
+    return entry;
+  }
+
+  getRole(peerId: string): DeviceRole | undefined {
+    return this.plan.get(peerId);
+  }
+
+  getPlan(): Record<string, DeviceRole> {
+    return Object.fromEntries(this.plan);
+  }
+
+  getHistory(): RolePlanEntry[] {
+    return [...this.history];
+  }
+
+  reset() {
+    this.plan.clear();
+    this.names.clear();
+    this.history = [];
+  }
+
+  private roleFor(device: D, masterId: string | null): DeviceRole {
+    // There is one master, the elected one; other master-grade devices compute
+    if (device.peerId === masterId) return "master";
+
+    const previous = this.plan.get(device.peerId);
+    let role = this.suggestRole(device, device.score);
+    if (previous && previous !== "master" && role !== previous) {
+      // Roles only go up with the score, so if the previous role is still
+      // within reach on either side of the margin, the device keeps it
+      const lower = this.suggestRole(device, device.score - HYSTERESIS);
+      const upper = this.suggestRole(device, device.score + HYSTERESIS);
+      if (lower === previous || upper === previous) {
+        role = previous;
+      }
+    }
+    return role === "master" ? "compute" : role;
+  }
+}
@@ -1,10 +1,36 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupAuth, requireAuth, asyncHandler } from "./auth";
 import { initGhostNetwork, getGhostNetwork } from "./ghost-network";
+import { getJoinTokenIssuer } from "./ghost-auth";
+import { getBluetoothProvider, BridgedBluetoothProvider, BluetoothUnavailableError } from "./bluetooth";
+import { aggregateNetworkStats } from "./network-stats";
+import { initDiscovery } from "./discovery";
+import { buildIceConfig } from "./ice-config";
+import {
+  insertGameSchema,
+  insertControlSettingsSchema,
+  insertNetworkSettingsSchema,
+  insertBluetoothDeviceSchema,
+  updateRomSchema,
+  type Device,
+  type Rom,
+  type RomWithUrl,
+} from "@shared/schema";
+import {
+  discoveryBroadcastSchema,
+  ghostTokenRequestSchema,
+  isLobbyRoomId,
+  type GhostPeer,
+  type GhostPeerInfo,
+} from "@shared/ghost-types";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
+import { createHash, randomBytes } from "crypto";
 
 const ROMS_DIR = "/tmp/roms";
 
@@ -26,75 +52,458 @@ const romStorage = multer.diskStorage({
 
 const upload = multer({ storage: romStorage });
 
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+function withUrl(rom: Rom): RomWithUrl {
+  return { ...rom, url: `/api/roms/raw/${rom.filename}` };
+}
+
+const DEVICE_TYPES: Record<GhostPeer["type"], string> = {
+  browser: "pc",
+  mobile: "phone",
+  tv: "tv",
+  server: "pc",
+};
+
+function peerToDevice(peer: GhostPeerInfo): Device {
+  return {
+    id: peer.id,
+    name: peer.name,
+    deviceType: DEVICE_TYPES[peer.type],
+    status: peer.status === "connecting" ? "connecting" : "connected",
+    batteryLevel: null,
+    cpuUsage: 0,
+    ramUsage: 0,
+    ipAddress: peer.address,
+  };
+}
+
 export async function registerRoutes(httpServer: Server, app: Express) {
+  setupAuth(app);
   await initGhostNetwork(httpServer);
+  const discovery = initDiscovery();
 
-  app.get("/api/network/stats", (_req, res) => {
+  app.get("/api/network/stats", requireAuth, asyncHandler(async (req, res) => {
+    const session = await storage.getActiveSession(req.user!.id);
+    res.json(aggregateNetworkStats(getGhostNetwork(), req.user!.id, session !== null));
+  }));
+
+  // Only for a peer the caller is connected as, so nobody can overwrite
+  // someone else's entry
+  app.post("/api/network/broadcast", requireAuth, (req, res) => {
+    const result = discoveryBroadcastSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    const { peerId, peerName, capabilities } = result.data;
+    if (!getGhostNetwork()?.isPeerOwnedBy(peerId, req.user!.id)) {
+      return res.status(403).json({ error: "Peer does not belong to this account" });
+    }
+    const entry = discovery.announce({
+      id: peerId,
+      name: peerName || `Peer-${peerId.slice(0, 6)}`,
+      kind: "peer",
+      capabilities: capabilities ?? null,
+      address: req.ip?.replace(/^::ffff:/, "") || null,
+      url: null,
+    });
+    res.json(entry);
+  });
+
+  // Other servers on the LAN, and the peers the caller shares a room with
+  app.post("/api/network/discover", requireAuth, (req, res) => {
     const ghostNet = getGhostNetwork();
-    const stats = ghostNet?.getStats() || { latency: 0, fps: 0, connectedDevices: 0, totalBandwidth: 0, status: "idle" };
-    res.json(stats);
+    res.json(discovery.list().filter((entry) =>
+      entry.kind === "server" || (ghostNet?.isPeerVisibleTo(entry.id, req.user!.id) ?? false),
+    ));
+  });
+
+  app.post("/api/ghost/token", requireAuth, (req, res) => {
+    const result = ghostTokenRequestSchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    // Reconnecting within the grace window keeps the previous peer id;
+    // otherwise (or with a forged token) the client starts over as a new peer
+    const issuer = getJoinTokenIssuer();
+    const { resumeToken } = result.data;
+    const resumed = resumeToken ? issuer.verifyResume(resumeToken) : null;
+    if (resumed && resumed.userId === req.user!.id && getGhostNetwork()?.isResumable(resumed.peerId)) {
+      return res.json(issuer.issue(req.user!.id, resumed.peerId));
+    }
+    res.json(issuer.issue(req.user!.id));
   });
 
-  app.get("/api/devices", (_req, res) => {
+  // Public: the configuration is the same for everyone apart from the LAN-only
+  // preference, which signed-in users get from their settings
+  app.get("/api/ghost/ice-config", asyncHandler(async (req, res) => {
+    const settings = req.isAuthenticated() ? await storage.getNetworkSettings(req.user!.id) : null;
+    res.json(buildIceConfig(settings?.lanOnly ?? false));
+  }));
+
+  // Bandwidth probe of the capability benchmark (capability-benchmark.ts).
+  // Random bytes so that no compression along the way flatters the result.
+  const MAX_BENCHMARK_BYTES = 4 * 1024 * 1024;
+
+  app.get("/api/ghost/benchmark", requireAuth, (req, res) => {
+    const bytes = Number(req.query.bytes);
+    if (!Number.isInteger(bytes) || bytes <= 0 || bytes > MAX_BENCHMARK_BYTES) {
+      return res.status(400).json({ error: `bytes must be between 1 and ${MAX_BENCHMARK_BYTES}` });
+    }
+    res.set("Cache-Control", "no-store");
+    res.type("application/octet-stream").send(randomBytes(bytes));
+  });
+
+  app.post(
+    "/api/ghost/benchmark",
+    requireAuth,
+    express.raw({ type: "application/octet-stream", limit: MAX_BENCHMARK_BYTES }),
+    (req, res) => {
+      res.json({ bytes: Buffer.isBuffer(req.body) ? req.body.length : 0 });
+    },
+  );
+
+  app.get("/api/ghost/stats", requireAuth, (_req, res) => {
     const ghostNet = getGhostNetwork();
-    const devices = (ghostNet as any)?.getDiscoveredDevices?.() || [];
-    res.json(devices);
+    if (!ghostNet) {
+      return res.status(503).json({ error: "Ghost network not running" });
+    }
+    res.json(ghostNet.getStats());
   });
 
-  app.post("/api/devices/:id/connect", async (req, res) => {
+  // Only the rooms the caller has a peer in: other households stay invisible
+  app.get("/api/ghost/peers", requireAuth, (req, res) => {
+    const roomId = typeof req.query.roomId === "string" ? req.query.roomId : undefined;
+    res.json(getGhostNetwork()?.getPeersForUser(req.user!.id, roomId) || []);
+  });
+
+  app.get("/api/ghost/peers/:id", requireAuth, (req, res) => {
+    const ghostNet = getGhostNetwork();
+    const peer = ghostNet?.isPeerVisibleTo(req.params.id, req.user!.id)
+      ? ghostNet.getPeer(req.params.id)
+      : undefined;
+    if (!peer) {
+      return res.status(404).json({ error: "Peer not found" });
+    }
+    res.json(peer);
+  });
+
+  // Like the peers, only the distributions in the caller's rooms
+  app.get("/api/ghost/distribution", requireAuth, (req, res) => {
+    const roomId = typeof req.query.roomId === "string" ? req.query.roomId : undefined;
+    res.json(getGhostNetwork()?.getDistributionsForUser(req.user!.id, roomId) || []);
+  });
+
+  app.get("/api/ghost/distribution/:gameId", requireAuth, (req, res) => {
+    const roomId = typeof req.query.roomId === "string" ? req.query.roomId : undefined;
+    const distribution = getGhostNetwork()
+      ?.getDistributionsForUser(req.user!.id, roomId)
+      .find((d) => d.gameId === req.params.gameId);
+    if (!distribution) {
+      return res.status(404).json({ error: "No bundles distributed for this game" });
+    }
+    res.json(distribution);
+  });
+
+  // Rooms other peers can still join; the lobbies are private to their account
+  app.get("/api/ghost/rooms", requireAuth, (_req, res) => {
+    const rooms = getGhostNetwork()?.getRooms() || [];
+    res.json(rooms.filter((room) =>
+      !isLobbyRoomId(room.id) && (room.maxPeers === null || room.peerCount < room.maxPeers),
+    ));
+  });
+
+  // Members only; outsiders find joinable rooms in the list above
+  app.get("/api/ghost/rooms/:id", requireAuth, (req, res) => {
+    const ghostNet = getGhostNetwork();
+    const room = ghostNet?.isRoomVisibleTo(req.params.id, req.user!.id)
+      ? ghostNet.getRoom(req.params.id)
+      : undefined;
+    if (!room) {
+      return res.status(404).json({ error: "Room not found" });
+    }
+    res.json(room);
+  });
+
+  app.get("/api/devices", requireAuth, (req, res) => {
+    const peers = getGhostNetwork()?.getPeersForUser(req.user!.id) || [];
+    res.json(peers.map(peerToDevice));
+  });
+
+  app.post("/api/devices/:id/connect", requireAuth, (_req, res) => {
     res.json({ success: true });
   });
 
-  app.get("/api/session/active", async (_req, res) => {
-    const session = storage.getActiveSession();
-    res.json(session || null);
+  app.get("/api/games", requireAuth, asyncHandler(async (_req, res) => {
+    const games = await storage.getAllGames();
+    res.json(games);
+  }));
+
+  app.get("/api/games/:id", requireAuth, asyncHandler(async (req, res) => {
+    const game = await storage.getGame(req.params.id);
+    if (!game) {
+      return res.status(404).json({ error: "Game not found" });
+    }
+    res.json(game);
+  }));
+
+  app.post("/api/games", requireAuth, asyncHandler(async (req, res) => {
+    const result = insertGameSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    const game = await storage.createGame(result.data);
+    res.status(201).json(game);
+  }));
+
+  app.patch("/api/games/:id", requireAuth, asyncHandler(async (req, res) => {
+    const result = insertGameSchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    const game = await storage.updateGame(req.params.id, result.data);
+    if (!game) {
+      return res.status(404).json({ error: "Game not found" });
+    }
+    res.json(game);
+  }));
+
+  app.delete("/api/games/:id", requireAuth, asyncHandler(async (req, res) => {
+    const deleted = await storage.deleteGame(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Game not found" });
+    }
+    res.status(204).send();
+  }));
+
+  app.post("/api/games/:id/launch", requireAuth, asyncHandler(async (req, res) => {
+    const game = await storage.getGame(req.params.id);
+    if (!game) {
+      return res.status(404).json({ error: "Game not found" });
+    }
+
+    const networkStats = aggregateNetworkStats(getGhostNetwork(), req.user!.id, true);
+    const session = await storage.startSession(req.user!.id, game.id, game.name, networkStats);
+    res.json(session);
+  }));
+
+  app.get("/api/session/active", requireAuth, asyncHandler(async (req, res) => {
+    const session = await storage.getActiveSession(req.user!.id);
+    if (!session) {
+      return res.json(null);
+    }
+    // Live measurements rather than the snapshot taken at launch
+    res.json({ ...session, networkStats: aggregateNetworkStats(getGhostNetwork(), req.user!.id, true) });
+  }));
+
+  app.delete("/api/session/active", requireAuth, asyncHandler(async (req, res) => {
+    await storage.endSession(req.user!.id);
+    res.status(204).send();
+  }));
+
+  app.get("/api/settings/controls", requireAuth, asyncHandler(async (req, res) => {
+    const settings = await storage.getControlSettings(req.user!.id);
+    res.json(settings);
+  }));
+
+  app.patch("/api/settings/controls", requireAuth, asyncHandler(async (req, res) => {
+    const result = insertControlSettingsSchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    const settings = await storage.updateControlSettings(req.user!.id, result.data);
+    res.json(settings);
+  }));
+
+  app.get("/api/settings/network", requireAuth, asyncHandler(async (req, res) => {
+    const settings = await storage.getNetworkSettings(req.user!.id);
+    res.json(settings);
+  }));
+
+  app.patch("/api/settings/network", requireAuth, asyncHandler(async (req, res) => {
+    const result = insertNetworkSettingsSchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    const settings = await storage.updateNetworkSettings(req.user!.id, result.data);
+    res.json(settings);
+  }));
+
+  app.get("/api/bluetooth/devices", requireAuth, asyncHandler(async (_req, res) => {
+    const devices = await storage.getAllBluetoothDevices();
+    res.json(devices);
+  }));
+
+  app.post("/api/bluetooth/scan", requireAuth, asyncHandler(async (_req, res) => {
+    try {
+      const found = await getBluetoothProvider().scan();
+      const known = await storage.getAllBluetoothDevices();
+
+      for (const device of found) {
+        const existing = known.find((d) => d.name === device.name);
+        if (existing) {
+          await storage.updateBluetoothDevice(existing.id, device);
+        } else {
+          await storage.createBluetoothDevice(device);
+        }
+      }
+
+      res.json(await storage.getAllBluetoothDevices());
+    } catch (error) {
+      if (error instanceof BluetoothUnavailableError) {
+        return res.status(501).json({ error: error.message });
+      }
+      console.error("Bluetooth scan error:", error);
+      res.status(500).json({ error: "Failed to scan for Bluetooth devices" });
+    }
+  }));
+
+  app.post("/api/bluetooth/devices/:id/pair", requireAuth, asyncHandler(async (req, res) => {
+    const device = await storage.getBluetoothDevice(req.params.id);
+    if (!device) {
+      return res.status(404).json({ error: "Bluetooth device not found" });
+    }
+
+    let paired: boolean;
+    try {
+      paired = await getBluetoothProvider().pair(device);
+    } catch (error) {
+      if (error instanceof BluetoothUnavailableError) {
+        return res.status(501).json({ error: error.message });
+      }
+      throw error;
+    }
+    if (!paired) {
+      return res.status(502).json({ error: "Failed to pair Bluetooth device" });
+    }
+
+    const updated = await storage.updateBluetoothDevice(device.id, { connected: true });
+    res.json(updated);
+  }));
+
+  app.post("/api/bluetooth/bridge/report", requireAuth, (req, res) => {
+    const provider = getBluetoothProvider();
+    if (!(provider instanceof BridgedBluetoothProvider)) {
+      return res.status(404).json({ error: "Bluetooth bridge not enabled" });
+    }
+
+    const result = z.array(insertBluetoothDeviceSchema).safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    provider.report(result.data);
+    res.status(204).send();
+  });
+
+  app.get("/api/bluetooth/bridge/requests", requireAuth, (_req, res) => {
+    const provider = getBluetoothProvider();
+    if (!(provider instanceof BridgedBluetoothProvider)) {
+      return res.status(404).json({ error: "Bluetooth bridge not enabled" });
+    }
+    res.json(provider.getPairRequests());
   });
 
-  app.post("/api/roms/upload", upload.single("rom"), (req, res) => {
+  app.get("/api/roms", requireAuth, asyncHandler(async (req, res) => {
+    const roms = await storage.getAllRoms(req.user!.id);
+    res.json(roms.map(withUrl));
+  }));
+
+  app.post("/api/roms/upload", requireAuth, upload.single("rom"), asyncHandler(async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No file uploaded" });
       }
 
-      const { originalname, filename, size } = req.file;
+      const { originalname, filename, size, path: filePath } = req.file;
       const name = req.body.name || originalname.replace(/\.[^/.]+$/, "");
       const core = req.body.core || "unknown";
+      const hash = await hashFile(filePath);
 
-      res.json({
-        id: filename.replace(/\.[^/.]+$/, ""),
-        filename,
-        name,
-        core,
-        size,
-        url: `/api/roms/raw/${filename}`,
-      });
+      // Same file uploaded again: keep the existing entry instead of a duplicate
+      const existing = await storage.getRomByHash(req.user!.id, hash);
+      if (existing) {
+        fs.unlinkSync(filePath);
+        return res.json(withUrl(existing));
+      }
+
+      const rom = await storage.createRom({ userId: req.user!.id, name, core, filename, size, hash });
+      res.status(201).json(withUrl(rom));
     } catch (error) {
       console.error("ROM upload error:", error);
       res.status(500).json({ error: "Failed to upload ROM" });
     }
-  });
+  }));
 
-  app.get("/api/roms/raw/:filename", (req, res) => {
-    const filePath = path.join(ROMS_DIR, req.params.filename);
+  app.get("/api/roms/:id", requireAuth, asyncHandler(async (req, res) => {
+    const rom = await storage.getRom(req.params.id);
+    if (!rom || rom.userId !== req.user!.id) {
+      return res.status(404).json({ error: "ROM not found" });
+    }
+    res.json(withUrl(rom));
+  }));
+
+  app.patch("/api/roms/:id", requireAuth, asyncHandler(async (req, res) => {
+    const result = updateRomSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    const existing = await storage.getRom(req.params.id);
+    if (!existing || existing.userId !== req.user!.id) {
+      return res.status(404).json({ error: "ROM not found" });
+    }
+
+    const rom = await storage.updateRom(existing.id, result.data);
+    if (!rom) {
+      return res.status(404).json({ error: "ROM not found" });
+    }
+    res.json(withUrl(rom));
+  }));
 
-    if (!fs.existsSync(filePath)) {
+  app.get("/api/roms/raw/:filename", requireAuth, asyncHandler(async (req, res) => {
+    const roms = await storage.getAllRoms(req.user!.id);
+    const rom = roms.find((r) => r.filename === req.params.filename);
+    const filePath = path.join(ROMS_DIR, path.basename(req.params.filename));
+
+    if (!rom || !fs.existsSync(filePath)) {
       return res.status(404).json({ error: "ROM not found" });
     }
 
     res.setHeader("Content-Type", "application/octet-stream");
     res.setHeader("Access-Control-Allow-Origin", "*");
     res.sendFile(filePath);
-  });
+  }));
 
-  app.delete("/api/roms/:filename", (req, res) => {
+  app.delete("/api/roms/:id", requireAuth, asyncHandler(async (req, res) => {
     try {
-      const filePath = path.join(ROMS_DIR, req.params.filename);
+      const rom = await storage.getRom(req.params.id);
+      if (!rom || rom.userId !== req.user!.id) {
+        return res.status(404).json({ error: "ROM not found" });
+      }
+
+      const filePath = path.join(ROMS_DIR, rom.filename);
       if (fs.existsSync(filePath)) {
         fs.unlinkSync(filePath);
       }
+      await storage.deleteRom(rom.id);
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: "Failed to delete ROM" });
     }
-  });
+  }));
 }
@@ -17,6 +17,9 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// User as returned by the API, never with the password hash
+export type PublicUser = Omit<User, "password">;
+
 // Game model
 export const games = pgTable("games", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -54,16 +57,28 @@ export type Device = typeof devices.$inferSelect;
 // Control Settings model
 export const controlSettings = pgTable("control_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id),
   virtualControlsEnabled: boolean("virtual_controls_enabled").notNull().default(true),
   opacity: integer("opacity").notNull().default(50), // 0-100
   controlSize: text("control_size").notNull().default("medium"), // 'small' | 'medium' | 'large'
   hapticFeedback: boolean("haptic_feedback").notNull().default(true),
 });
 
-export const insertControlSettingsSchema = createInsertSchema(controlSettings).omit({ id: true });
+export const insertControlSettingsSchema = createInsertSchema(controlSettings).omit({ id: true, userId: true });
 export type InsertControlSettings = z.infer<typeof insertControlSettingsSchema>;
 export type ControlSettings = typeof controlSettings.$inferSelect;
 
+// Network Settings model
+export const networkSettings = pgTable("network_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id),
+  lanOnly: boolean("lan_only").notNull().default(false), // host ICE candidates only, no STUN/TURN
+});
+
+export const insertNetworkSettingsSchema = createInsertSchema(networkSettings).omit({ id: true, userId: true });
+export type InsertNetworkSettings = z.infer<typeof insertNetworkSettingsSchema>;
+export type NetworkSettings = typeof networkSettings.$inferSelect;
+
 // Bluetooth Device model
 export const bluetoothDevices = pgTable("bluetooth_devices", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -77,6 +92,26 @@ export const insertBluetoothDeviceSchema = createInsertSchema(bluetoothDevices).
 export type InsertBluetoothDevice = z.infer<typeof insertBluetoothDeviceSchema>;
 export type BluetoothDevice = typeof bluetoothDevices.$inferSelect;
 
+// ROM model - uploaded ROM files kept under the server's ROM directory
+export const roms = pgTable("roms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  core: text("core").notNull(), // EmulatorJS core, e.g. 'nes' | 'snes' | 'psx'
+  filename: text("filename").notNull(), // file name on disk
+  size: integer("size").notNull(), // in bytes
+  hash: text("hash").notNull(), // SHA-256 of the file contents
+  uploadedAt: timestamp("uploaded_at").notNull().defaultNow(),
+});
+
+export const insertRomSchema = createInsertSchema(roms).omit({ id: true, uploadedAt: true });
+export const updateRomSchema = insertRomSchema.pick({ name: true, core: true }).partial();
+export type InsertRom = z.infer<typeof insertRomSchema>;
+export type Rom = typeof roms.$inferSelect;
+
+// ROM as returned by the API, with the URL the emulator loads it from
+export type RomWithUrl = Rom & { url: string };
+
 // Network Stats (real-time, not persisted)
 export interface NetworkStats {
   latency: number; // in ms
@@ -1,5 +1,5 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Gamepad2, Wifi, Monitor, Sliders, Bluetooth, Keyboard, Mouse, Loader2 } from "lucide-react";
+import { Gamepad2, Wifi, Monitor, Sliders, Bluetooth, Keyboard, Mouse, Loader2, LogOut } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
@@ -10,16 +10,23 @@ import { Badge } from "@/components/ui/badge";
 import { StatusBar } from "@/components/status-bar";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { ControlSettings, BluetoothDevice, NetworkStats } from "@shared/schema";
+import { ghostClient } from "@/lib/ghost-client";
+import type { ControlSettings, NetworkSettings, BluetoothDevice, NetworkStats } from "@shared/schema";
 
 export default function SettingsPage() {
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
 
   const { data: controlSettings } = useQuery<ControlSettings>({
     queryKey: ["/api/settings/controls"],
   });
 
+  const { data: networkSettings } = useQuery<NetworkSettings>({
+    queryKey: ["/api/settings/network"],
+  });
+
   const { data: bluetoothDevices = [] } = useQuery<BluetoothDevice[]>({
     queryKey: ["/api/bluetooth/devices"],
   });
@@ -49,6 +56,30 @@ export default function SettingsPage() {
     },
   });
 
+  const updateNetworkMutation = useMutation({
+    mutationFn: async (data: Partial<NetworkSettings>) => {
+      return apiRequest("PATCH", "/api/settings/network", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/network"] });
+      // Open peer connections switch to the new ICE policy right away
+      ghostClient.refreshIceConfig().catch((error) => {
+        console.error("Failed to refresh ICE config:", error);
+      });
+      toast({
+        title: "Configurações salvas",
+        description: "As configurações de rede foram atualizadas.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar as configurações.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const pairBluetoothMutation = useMutation({
     mutationFn: async (deviceId: string) => {
       return apiRequest("POST", `/api/bluetooth/devices/${deviceId}/pair`, {});
@@ -114,10 +145,21 @@ export default function SettingsPage() {
               Configurações
             </h1>
             <p className="text-sm text-muted-foreground">
-              Personalize sua experiência
+              {user ? `Conectado como ${user.username}` : "Personalize sua experiência"}
             </p>
           </div>
-          <ThemeToggle />
+          <div className="flex items-center gap-2">
+            <ThemeToggle />
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              data-testid="button-logout"
+            >
+              <LogOut className="w-5 h-5" />
+            </Button>
+          </div>
         </div>
 
         <Tabs defaultValue="controls" className="w-full">
@@ -299,6 +341,22 @@ export default function SettingsPage() {
                   </div>
                 </div>
 
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label className="font-medium">Somente Rede Local</Label>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Conecta apenas a dispositivos na mesma rede Wi-Fi
+                    </p>
+                  </div>
+                  <Switch
+                    checked={networkSettings?.lanOnly ?? false}
+                    onCheckedChange={(checked) =>
+                      updateNetworkMutation.mutate({ lanOnly: checked })
+                    }
+                    data-testid="switch-lan-only"
+                  />
+                </div>
+
                 <div className="flex items-center justify-between">
                   <div>
                     <Label className="font-medium">Priorizar Latência</Label>
@@ -0,0 +1,339 @@
+import type { GhostJoinToken, PeerCapabilities } from "@shared/ghost-types";
+import { apiRequest } from "@/lib/queryClient";
+
+type SignalingHandler = (message: any) => void;
+
+// How GhostClient reaches the other peers until it has data channels to
+// them: offers, answers, ICE candidates and the room's peer list go through
+// here. The WebSocket transport talks to the /ghost server; the other two
+// stand in for it, for tabs of the same browser or peers in the same page.
+export interface SignalingTransport {
+  // Resolves with the peer id to use on this transport, which may differ
+  // from the one asked for (the server assigns ids)
+  open(peerId: string): Promise<string>;
+  send(message: any): void;
+  // `forget` drops whatever the transport keeps to resume the session
+  close(forget?: boolean): void;
+  isOpen(): boolean;
+  onmessage: SignalingHandler | null;
+  // Only called when the transport goes away on its own, not after close()
+  onclose: (() => void) | null;
+}
+
+// What a "peer-list" carries about each peer, as the server sends it
+interface PeerSummary {
+  id: string;
+  name: string;
+  type: string;
+  status: string;
+  capabilities?: PeerCapabilities;
+}
+
+function summarizeJoin(message: any): PeerSummary {
+  return {
+    id: message.peerId,
+    name: message.peerName || `Peer-${String(message.peerId).slice(0, 6)}`,
+    type: "browser",
+    status: "connected",
+    capabilities: message.capabilities,
+  };
+}
+
+export class WebSocketSignalingTransport implements SignalingTransport {
+  private ws: WebSocket | null = null;
+  private resumeToken: string | null = null;
+  onmessage: SignalingHandler | null = null;
+  onclose: (() => void) | null = null;
+
+  // The server assigns the peer id; the socket is bound to it for its lifetime.
+  // After a dropped connection the resume token asks for the previous id back.
+  private async fetchJoinToken(): Promise<GhostJoinToken> {
+    const res = await apiRequest(
+      "POST",
+      "/api/ghost/token",
+      this.resumeToken ? { resumeToken: this.resumeToken } : undefined,
+    );
+    const joinToken: GhostJoinToken = await res.json();
+    this.resumeToken = joinToken.resumeToken;
+    return joinToken;
+  }
+
+  async open(_peerId: string): Promise<string> {
+    const { token, peerId } = await this.fetchJoinToken();
+
+    return new Promise((resolve, reject) => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const wsUrl = `${protocol}//${window.location.host}/ghost?token=${encodeURIComponent(token)}`;
+
+      // Se já houver uma conexão tentando, não abra outra
+      this.closeSocket();
+
+      const ws = new WebSocket(wsUrl);
+      this.ws = ws;
+
+      ws.onopen = () => resolve(peerId);
+
+      ws.onmessage = (event) => {
+        try {
+          this.onmessage?.(JSON.parse(event.data));
+        } catch (error) {
+          console.error("Failed to parse message:", error);
+        }
+      };
+
+      ws.onerror = (error) => {
+        console.error("WebSocket error:", error);
+        reject(error);
+      };
+
+      ws.onclose = () => {
+        this.ws = null;
+        this.onclose?.();
+      };
+    });
+  }
+
+  send(message: any) {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  close(forget: boolean = false) {
+    this.closeSocket();
+    if (forget) {
+      this.resumeToken = null;
+    }
+  }
+
+  isOpen(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  private closeSocket() {
+    if (this.ws) {
+      this.ws.onclose = null;
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+}
+
+// Envelope posted on the BroadcastChannel
+type ChannelEnvelope =
+  | { kind: "announce"; peer: PeerSummary; to?: string }
+  | { kind: "leave"; peerId: string }
+  | { kind: "relay"; from: string; to?: string; message: any };
+
+// Signaling between tabs of the same origin, with no server involved. Each
+// tab announces itself on join and the others answer with their own
+// announcement, which is how the server's peer lists are rebuilt here.
+export class BroadcastChannelSignalingTransport implements SignalingTransport {
+  private channel: BroadcastChannel | null = null;
+  private peerId: string = "";
+  private self: PeerSummary | null = null;
+  private known: Map<string, PeerSummary> = new Map();
+  onmessage: SignalingHandler | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(private channelName: string = "ghost-signaling") {}
+
+  async open(peerId: string): Promise<string> {
+    this.close();
+    this.peerId = peerId;
+    this.channel = new BroadcastChannel(this.channelName);
+    this.channel.onmessage = (event) => this.receive(event.data as ChannelEnvelope);
+    return peerId;
+  }
+
+  send(message: any) {
+    if (!this.channel) return;
+
+    switch (message.type) {
+      case "join":
+        this.self = summarizeJoin({ ...message, peerId: this.peerId });
+        this.post({ kind: "announce", peer: this.self });
+        break;
+
+      case "leave":
+        this.post({ kind: "leave", peerId: this.peerId });
+        break;
+
+      default:
+        // Like the server: addressed messages go to one peer, the rest to all
+        this.post({ kind: "relay", from: this.peerId, to: message.to, message });
+    }
+  }
+
+  close(_forget: boolean = false) {
+    if (!this.channel) return;
+    if (this.self) {
+      this.post({ kind: "leave", peerId: this.peerId });
+    }
+    this.channel.close();
+    this.channel = null;
+    this.self = null;
+    this.known.clear();
+  }
+
+  isOpen(): boolean {
+    return this.channel !== null;
+  }
+
+  private post(envelope: ChannelEnvelope) {
+    this.channel?.postMessage(envelope);
+  }
+
+  private receive(envelope: ChannelEnvelope) {
+    switch (envelope.kind) {
+      case "announce":
+        if (envelope.peer.id === this.peerId) return;
+        if (envelope.to && envelope.to !== this.peerId) return;
+
+        this.known.set(envelope.peer.id, envelope.peer);
+        if (envelope.to) {
+          // An answer to our own announcement: the list of who is here so far
+          this.deliver({ type: "peer-list", peers: Array.from(this.known.values()) });
+        } else {
+          this.deliver({ type: "peer-list", peers: [envelope.peer] });
+          if (this.self) {
+            this.post({ kind: "announce", peer: this.self, to: envelope.peer.id });
+          }
+        }
+        break;
+
+      case "leave":
+        if (this.known.delete(envelope.peerId)) {
+          this.deliver({ type: "peer-left", peerId: envelope.peerId });
+        }
+        break;
+
+      case "relay":
+        if (envelope.from === this.peerId) return;
+        if (envelope.to && envelope.to !== this.peerId) return;
+        this.deliver({ ...envelope.message, from: envelope.from });
+        break;
+    }
+  }
+
+  private deliver(message: any) {
+    this.onmessage?.(message);
+  }
+}
+
+// Stands in for the /ghost server inside one page or test: every transport
+// created from the same hub sees the others as room mates.
+export class InMemorySignalingHub {
+  private transports: Map<string, InMemorySignalingTransport> = new Map();
+  private joined: Map<string, PeerSummary> = new Map();
+
+  createTransport(): InMemorySignalingTransport {
+    return new InMemorySignalingTransport(this);
+  }
+
+  getPeerIds(): string[] {
+    return Array.from(this.joined.keys());
+  }
+
+  // Simulates a dropped connection: the peer's transport closes on its own
+  drop(peerId: string) {
+    const transport = this.transports.get(peerId);
+    if (!transport) return;
+    this.detach(peerId);
+    transport.closedByHub();
+  }
+
+  attach(peerId: string, transport: InMemorySignalingTransport) {
+    this.transports.set(peerId, transport);
+  }
+
+  detach(peerId: string) {
+    this.transports.delete(peerId);
+    if (this.joined.delete(peerId)) {
+      this.broadcast({ type: "peer-left", peerId }, peerId);
+    }
+  }
+
+  route(from: string, message: any) {
+    switch (message.type) {
+      case "join": {
+        const peer = summarizeJoin({ ...message, peerId: from });
+        this.deliver(from, {
+          type: "peer-list",
+          peers: Array.from(this.joined.values()),
+        });
+        this.joined.set(from, peer);
+        this.broadcast({ type: "peer-list", peers: [peer] }, from);
+        break;
+      }
+
+      case "leave":
+        if (this.joined.delete(from)) {
+          this.broadcast({ type: "peer-left", peerId: from }, from);
+        }
+        break;
+
+      default:
+        if (!this.joined.has(from)) return;
+        if (message.to) {
+          this.deliver(message.to, { ...message, from });
+        } else {
+          this.broadcast({ ...message, from }, from);
+        }
+    }
+  }
+
+  private broadcast(message: any, excludePeerId: string) {
+    Array.from(this.joined.keys()).forEach((peerId) => {
+      if (peerId !== excludePeerId) {
+        this.deliver(peerId, message);
+      }
+    });
+  }
+
+  // Asynchronous like a real network, so handlers never run re-entrantly
+  private deliver(peerId: string, message: any) {
+    queueMicrotask(() => this.transports.get(peerId)?.receive(message));
+  }
+}
+
+export class InMemorySignalingTransport implements SignalingTransport {
+  private peerId: string | null = null;
+  onmessage: SignalingHandler | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(private hub: InMemorySignalingHub) {}
+
+  async open(peerId: string): Promise<string> {
+    this.close();
+    this.peerId = peerId;
+    this.hub.attach(peerId, this);
+    return peerId;
+  }
+
+  send(message: any) {
+    if (this.peerId) {
+      this.hub.route(this.peerId, message);
+    }
+  }
+
+  close(_forget: boolean = false) {
+    if (this.peerId) {
+      this.hub.detach(this.peerId);
+      this.peerId = null;
+    }
+  }
+
+  isOpen(): boolean {
+    return this.peerId !== null;
+  }
+
+  receive(message: any) {
+    this.onmessage?.(message);
+  }
+
+  closedByHub() {
+    this.peerId = null;
+    this.onclose?.();
+  }
+}
@@ -0,0 +1,196 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { newDb, DataType } from "pg-mem";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type pg from "pg";
+import * as schema from "@shared/schema";
+import { MemStorage, DbStorage, type IStorage } from "./storage";
+
+// The same contract runs against MemStorage and against DbStorage on pg-mem,
+// an in-process Postgres stand-in, with the tables `db:push` would create.
+
+const NETWORK_STATS = {
+  latency: 12,
+  fps: 60,
+  connectedDevices: 2,
+  totalBandwidth: 50,
+  status: "excellent" as const,
+};
+
+async function createDbStorage(): Promise<{ storage: DbStorage; pool: pg.Pool }> {
+  const mem = newDb();
+  mem.public.registerFunction({
+    name: "gen_random_uuid",
+    returns: DataType.text,
+    implementation: randomUUID,
+    impure: true,
+  });
+
+  const { generateDrizzleJson, generateMigration } = await import("drizzle-kit/api");
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  statements.forEach((statement) => mem.public.none(statement));
+
+  const { Pool } = mem.adapters.createPg();
+  const pool: pg.Pool = new Pool();
+  // pg-mem supports neither custom type parsers nor array rows, both of which
+  // drizzle asks for; its rows come back in select order, so an object's
+  // values make the array
+  const query = pool.query.bind(pool) as (config: string | pg.QueryConfig, values?: unknown[]) => Promise<pg.QueryResult>;
+  const arrayRowQuery = async (config: string | pg.QueryArrayConfig | pg.QueryConfig, values?: unknown[]) => {
+    if (typeof config !== "object") return query(config, values);
+    const { types: _types, ...rest } = config;
+    const result = await query({ text: rest.text, values: rest.values, name: rest.name }, values);
+    return "rowMode" in rest && rest.rowMode === "array"
+      ? { ...result, rows: result.rows.map((row) => Object.values(row)) }
+      : result;
+  };
+  Object.assign(pool, { query: arrayRowQuery as typeof pool.query });
+  return { storage: new DbStorage(drizzle(pool, { schema }), pool), pool };
+}
+
+function storageContract(name: string, setup: () => Promise<{ storage: IStorage; teardown: () => Promise<void> }>) {
+  describe(name, () => {
+    let storage: IStorage;
+    let teardown: () => Promise<void>;
+
+    before(async () => {
+      ({ storage, teardown } = await setup());
+    });
+
+    after(async () => {
+      await teardown();
+    });
+
+    it("creates users and finds them by id and username", async () => {
+      const user = await storage.createUser({ username: "alice", password: "hash" });
+      assert.ok(user.id);
+      assert.deepEqual(await storage.getUser(user.id), user);
+      assert.deepEqual(await storage.getUserByUsername("alice"), user);
+      assert.equal(await storage.getUserByUsername("nobody"), undefined);
+    });
+
+    it("creates, updates and deletes games", async () => {
+      const game = await storage.createGame({ name: "Chrono", genre: "RPG", gameType: "offline", size: "4 MB" });
+      assert.equal(game.status, "ready");
+      assert.equal(game.minDevices, 3);
+
+      const updated = await storage.updateGame(game.id, { name: "Chrono Trigger" });
+      assert.equal(updated?.name, "Chrono Trigger");
+      assert.deepEqual(await storage.updateGame(game.id, {}), updated);
+      assert.equal(await storage.updateGame(randomUUID(), { name: "x" }), undefined);
+      assert.deepEqual(await storage.getAllGames(), [updated]);
+
+      assert.equal(await storage.deleteGame(game.id), true);
+      assert.equal(await storage.deleteGame(game.id), false);
+      assert.equal(await storage.getGame(game.id), undefined);
+    });
+
+    it("creates, updates and deletes devices", async () => {
+      const device = await storage.createDevice({ name: "TV", deviceType: "tv" });
+      assert.equal(device.status, "disconnected");
+
+      const updated = await storage.updateDevice(device.id, { status: "connected" });
+      assert.equal(updated?.status, "connected");
+      assert.deepEqual(await storage.updateDevice(device.id, {}), updated);
+
+      assert.equal(await storage.deleteDevice(device.id), true);
+      assert.equal(await storage.getDevice(device.id), undefined);
+    });
+
+    it("keeps control and network settings per user, with defaults", async () => {
+      const alice = await storage.getUserByUsername("alice");
+      const bob = await storage.createUser({ username: "bob", password: "hash" });
+
+      const defaults = await storage.getControlSettings(alice!.id);
+      assert.equal(defaults.virtualControlsEnabled, true);
+      assert.equal(defaults.opacity, 50);
+
+      const updated = await storage.updateControlSettings(alice!.id, { opacity: 80 });
+      assert.equal(updated.opacity, 80);
+      assert.deepEqual(await storage.updateControlSettings(alice!.id, {}), updated);
+      assert.equal((await storage.getControlSettings(bob.id)).opacity, 50);
+
+      assert.equal((await storage.getNetworkSettings(alice!.id)).lanOnly, false);
+      assert.equal((await storage.updateNetworkSettings(alice!.id, { lanOnly: true })).lanOnly, true);
+      assert.equal((await storage.getNetworkSettings(bob.id)).lanOnly, false);
+    });
+
+    it("creates a user's settings once when several requests ask at the same time", async () => {
+      const carol = await storage.createUser({ username: "carol", password: "hash" });
+
+      const [, , updated] = await Promise.all([
+        storage.getControlSettings(carol.id),
+        storage.getControlSettings(carol.id),
+        storage.updateControlSettings(carol.id, { opacity: 70 }),
+      ]);
+      assert.equal(updated.opacity, 70);
+      assert.equal((await storage.getControlSettings(carol.id)).opacity, 70);
+
+      const network = await Promise.all([
+        storage.getNetworkSettings(carol.id),
+        storage.updateNetworkSettings(carol.id, { lanOnly: true }),
+      ]);
+      assert.equal(network[1].lanOnly, true);
+      assert.equal((await storage.getNetworkSettings(carol.id)).lanOnly, true);
+    });
+
+    it("creates and updates Bluetooth devices", async () => {
+      const pad = await storage.createBluetoothDevice({ name: "Pad", deviceType: "gamepad" });
+      assert.equal(pad.connected, false);
+
+      const paired = await storage.updateBluetoothDevice(pad.id, { connected: true });
+      assert.equal(paired?.connected, true);
+      assert.deepEqual(await storage.updateBluetoothDevice(pad.id, {}), paired);
+      assert.deepEqual(await storage.getAllBluetoothDevices(), [paired]);
+    });
+
+    it("keeps ROMs per user and finds them by hash", async () => {
+      const alice = await storage.getUserByUsername("alice");
+      const bob = await storage.getUserByUsername("bob");
+      const rom = await storage.createRom({
+        userId: alice!.id,
+        name: "Zelda",
+        core: "snes",
+        filename: "zelda.sfc",
+        size: 1024,
+        hash: "abc",
+      });
+      assert.ok(rom.uploadedAt instanceof Date);
+
+      assert.deepEqual(await storage.getAllRoms(alice!.id), [rom]);
+      assert.deepEqual(await storage.getAllRoms(bob!.id), []);
+      assert.deepEqual(await storage.getRomByHash(alice!.id, "abc"), rom);
+      assert.equal(await storage.getRomByHash(bob!.id, "abc"), undefined);
+
+      const renamed = await storage.updateRom(rom.id, { name: "Zelda III" });
+      assert.equal(renamed?.name, "Zelda III");
+      assert.deepEqual(await storage.updateRom(rom.id, {}), renamed);
+
+      assert.equal(await storage.deleteRom(rom.id), true);
+      assert.equal(await storage.getRom(rom.id), undefined);
+    });
+
+    it("tracks one active game session per user", async () => {
+      const alice = await storage.getUserByUsername("alice");
+      assert.equal(await storage.getActiveSession(alice!.id), null);
+
+      const session = await storage.startSession(alice!.id, "game-1", "Zelda", NETWORK_STATS);
+      assert.equal(session.isActive, true);
+      assert.deepEqual(await storage.getActiveSession(alice!.id), session);
+
+      await storage.endSession(alice!.id);
+      assert.equal(await storage.getActiveSession(alice!.id), null);
+    });
+  });
+}
+
+storageContract("MemStorage", async () => ({
+  storage: new MemStorage(),
+  teardown: async () => {},
+}));
+
+storageContract("DbStorage", async () => {
+  const { storage, pool } = await createDbStorage();
+  return { storage, teardown: () => pool.end() };
+});
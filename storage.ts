@@ -3,12 +3,26 @@ import {
   type Game, type InsertGame,
   type Device, type InsertDevice,
   type ControlSettings, type InsertControlSettings,
+  type NetworkSettings, type InsertNetworkSettings,
   type BluetoothDevice, type InsertBluetoothDevice,
-  type NetworkStats, type GameSession
+  type Rom, type InsertRom,
+  type NetworkStats, type GameSession,
+  users, games, devices, controlSettings, networkSettings, bluetoothDevices, roms,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, eq } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import type pg from "pg";
+import { createDb, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -29,8 +43,12 @@ export interface IStorage {
   deleteDevice(id: string): Promise<boolean>;
 
   // Control Settings
-  getControlSettings(): Promise<ControlSettings | undefined>;
-  updateControlSettings(settings: Partial<InsertControlSettings>): Promise<ControlSettings>;
+  getControlSettings(userId: string): Promise<ControlSettings>;
+  updateControlSettings(userId: string, settings: Partial<InsertControlSettings>): Promise<ControlSettings>;
+
+  // Network Settings
+  getNetworkSettings(userId: string): Promise<NetworkSettings>;
+  updateNetworkSettings(userId: string, settings: Partial<InsertNetworkSettings>): Promise<NetworkSettings>;
 
   // Bluetooth Devices
   getAllBluetoothDevices(): Promise<BluetoothDevice[]>;
@@ -38,38 +56,43 @@ export interface IStorage {
   createBluetoothDevice(device: InsertBluetoothDevice): Promise<BluetoothDevice>;
   updateBluetoothDevice(id: string, device: Partial<InsertBluetoothDevice>): Promise<BluetoothDevice | undefined>;
 
-  // Network Stats
-  getNetworkStats(): Promise<NetworkStats>;
-  
+  // ROMs
+  getAllRoms(userId: string): Promise<Rom[]>;
+  getRom(id: string): Promise<Rom | undefined>;
+  getRomByHash(userId: string, hash: string): Promise<Rom | undefined>;
+  createRom(rom: InsertRom): Promise<Rom>;
+  updateRom(id: string, rom: Partial<InsertRom>): Promise<Rom | undefined>;
+  deleteRom(id: string): Promise<boolean>;
+
   // Game Session
-  getActiveSession(): Promise<GameSession | null>;
-  startSession(gameId: string, gameName: string): Promise<GameSession>;
-  endSession(): Promise<void>;
+  getActiveSession(userId: string): Promise<GameSession | null>;
+  startSession(userId: string, gameId: string, gameName: string, networkStats: NetworkStats): Promise<GameSession>;
+  endSession(userId: string): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
   private users: Map<string, User>;
   private games: Map<string, Game>;
   private devices: Map<string, Device>;
-  private controlSettings: ControlSettings | undefined;
+  private controlSettings: Map<string, ControlSettings>; // by user id
+  private networkSettings: Map<string, NetworkSettings>; // by user id
   private bluetoothDevices: Map<string, BluetoothDevice>;
-  private activeSession: GameSession | null;
+  private roms: Map<string, Rom>;
+  private activeSessions: Map<string, GameSession>; // by user id
 
   constructor() {
     this.users = new Map();
     this.games = new Map();
     this.devices = new Map();
+    this.controlSettings = new Map();
+    this.networkSettings = new Map();
     this.bluetoothDevices = new Map();
-    this.activeSession = null;
-
-    // Initialize with default control settings
-    this.controlSettings = {
-      id: randomUUID(),
-      virtualControlsEnabled: true,
-      opacity: 50,
-      controlSize: "medium",
-      hapticFeedback: true,
-    };
+    this.roms = new Map();
+    this.activeSessions = new Map();
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
 
     // Add some sample games
     this.seedGames();
@@ -121,7 +144,15 @@ export class MemStorage implements IStorage {
 
   async createGame(insertGame: InsertGame): Promise<Game> {
     const id = randomUUID();
-    const game: Game = { ...insertGame, id, coverImage: insertGame.coverImage || null };
+    const game: Game = {
+      minDevices: 3,
+      maxFps: 60,
+      resolution: "1080p",
+      status: "ready",
+      ...insertGame,
+      id,
+      coverImage: insertGame.coverImage || null,
+    };
     this.games.set(id, game);
     return game;
   }
@@ -149,7 +180,15 @@ export class MemStorage implements IStorage {
 
   async createDevice(insertDevice: InsertDevice): Promise<Device> {
     const id = randomUUID();
-    const device: Device = { ...insertDevice, id };
+    const device: Device = {
+      status: "disconnected",
+      batteryLevel: null,
+      cpuUsage: 0,
+      ramUsage: 0,
+      ipAddress: null,
+      ...insertDevice,
+      id,
+    };
     this.devices.set(id, device);
     return device;
   }
@@ -167,22 +206,38 @@ export class MemStorage implements IStorage {
   }
 
   // Control Settings
-  async getControlSettings(): Promise<ControlSettings | undefined> {
-    return this.controlSettings;
-  }
-
-  async updateControlSettings(updates: Partial<InsertControlSettings>): Promise<ControlSettings> {
-    if (!this.controlSettings) {
-      this.controlSettings = {
-        id: randomUUID(),
-        virtualControlsEnabled: true,
-        opacity: 50,
-        controlSize: "medium",
-        hapticFeedback: true,
-      };
-    }
-    this.controlSettings = { ...this.controlSettings, ...updates };
-    return this.controlSettings;
+  async getControlSettings(userId: string): Promise<ControlSettings> {
+    return this.controlSettings.get(userId) ?? this.updateControlSettings(userId, {});
+  }
+
+  async updateControlSettings(userId: string, updates: Partial<InsertControlSettings>): Promise<ControlSettings> {
+    const current: ControlSettings = this.controlSettings.get(userId) ?? {
+      id: randomUUID(),
+      userId,
+      virtualControlsEnabled: true,
+      opacity: 50,
+      controlSize: "medium",
+      hapticFeedback: true,
+    };
+    const updated = { ...current, ...updates };
+    this.controlSettings.set(userId, updated);
+    return updated;
+  }
+
+  // Network Settings
+  async getNetworkSettings(userId: string): Promise<NetworkSettings> {
+    return this.networkSettings.get(userId) ?? this.updateNetworkSettings(userId, {});
+  }
+
+  async updateNetworkSettings(userId: string, updates: Partial<InsertNetworkSettings>): Promise<NetworkSettings> {
+    const current: NetworkSettings = this.networkSettings.get(userId) ?? {
+      id: randomUUID(),
+      userId,
+      lanOnly: false,
+    };
+    const updated = { ...current, ...updates };
+    this.networkSettings.set(userId, updated);
+    return updated;
   }
 
   // Bluetooth Devices
@@ -196,7 +251,7 @@ export class MemStorage implements IStorage {
 
   async createBluetoothDevice(insertDevice: InsertBluetoothDevice): Promise<BluetoothDevice> {
     const id = randomUUID();
-    const device: BluetoothDevice = { ...insertDevice, id };
+    const device: BluetoothDevice = { connected: false, batteryLevel: null, ...insertDevice, id };
     this.bluetoothDevices.set(id, device);
     return device;
   }
@@ -209,55 +264,272 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  // Network Stats
-  async getNetworkStats(): Promise<NetworkStats> {
-    const devices = Array.from(this.devices.values());
-    const connectedDevices = devices.filter((d) => d.status === "connected").length;
+  // ROMs
+  async getAllRoms(userId: string): Promise<Rom[]> {
+    return Array.from(this.roms.values()).filter((rom) => rom.userId === userId).sort(
+      (a, b) => a.uploadedAt.getTime() - b.uploadedAt.getTime(),
+    );
+  }
 
-    // Se não houver dispositivos, mas houver dispositivos na lista, vamos "forçar" a conexão para simular a rede fantasma ativa
-    if (connectedDevices === 0 && devices.length > 0) {
-      devices.forEach(d => d.status = "connected");
-    }
+  async getRom(id: string): Promise<Rom | undefined> {
+    return this.roms.get(id);
+  }
+
+  async getRomByHash(userId: string, hash: string): Promise<Rom | undefined> {
+    return Array.from(this.roms.values()).find((rom) => rom.userId === userId && rom.hash === hash);
+  }
+
+  async createRom(insertRom: InsertRom): Promise<Rom> {
+    const id = randomUUID();
+    const rom: Rom = { ...insertRom, id, uploadedAt: new Date() };
+    this.roms.set(id, rom);
+    return rom;
+  }
 
-    // Simulate dynamic network stats
-    const latency = Math.max(1, Math.floor(Math.random() * 5) + 2);
-    const fps = this.activeSession ? Math.floor(Math.random() * 10) + 55 : 0;
-    const bandwidth = connectedDevices * 25 + Math.floor(Math.random() * 50);
-
-    let status: NetworkStats["status"] = "excellent";
-    if (latency > 10) status = "poor";
-    else if (latency > 7) status = "fair";
-    else if (latency > 4) status = "good";
-
-    return {
-      latency,
-      fps,
-      connectedDevices,
-      totalBandwidth: bandwidth,
-      status,
+  async updateRom(id: string, updates: Partial<InsertRom>): Promise<Rom | undefined> {
+    const rom = this.roms.get(id);
+    if (!rom) return undefined;
+    const updated = { ...rom, ...updates };
+    this.roms.set(id, updated);
+    return updated;
+  }
+
+  async deleteRom(id: string): Promise<boolean> {
+    return this.roms.delete(id);
+  }
+
+  // Game Session
+  async getActiveSession(userId: string): Promise<GameSession | null> {
+    return this.activeSessions.get(userId) ?? null;
+  }
+
+  async startSession(userId: string, gameId: string, gameName: string, networkStats: NetworkStats): Promise<GameSession> {
+    const session: GameSession = {
+      gameId,
+      gameName,
+      startTime: new Date(),
+      isActive: true,
+      networkStats,
     };
+    this.activeSessions.set(userId, session);
+    return session;
+  }
+
+  async endSession(userId: string): Promise<void> {
+    this.activeSessions.delete(userId);
+  }
+}
+
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+  // Game sessions are real-time state and are not persisted
+  private activeSessions: Map<string, GameSession> = new Map();
+
+  constructor(private db: Database, pool: pg.Pool) {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Games
+  async getAllGames(): Promise<Game[]> {
+    return this.db.select().from(games);
+  }
+
+  async getGame(id: string): Promise<Game | undefined> {
+    const [game] = await this.db.select().from(games).where(eq(games.id, id));
+    return game;
+  }
+
+  async createGame(insertGame: InsertGame): Promise<Game> {
+    const [game] = await this.db.insert(games).values(insertGame).returning();
+    return game;
+  }
+
+  async updateGame(id: string, updates: Partial<InsertGame>): Promise<Game | undefined> {
+    // Drizzle refuses an UPDATE without values
+    if (Object.keys(updates).length === 0) return this.getGame(id);
+    const [game] = await this.db.update(games).set(updates).where(eq(games.id, id)).returning();
+    return game;
+  }
+
+  async deleteGame(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(games).where(eq(games.id, id)).returning({ id: games.id });
+    return deleted.length > 0;
+  }
+
+  // Devices
+  async getAllDevices(): Promise<Device[]> {
+    return this.db.select().from(devices);
+  }
+
+  async getDevice(id: string): Promise<Device | undefined> {
+    const [device] = await this.db.select().from(devices).where(eq(devices.id, id));
+    return device;
+  }
+
+  async createDevice(insertDevice: InsertDevice): Promise<Device> {
+    const [device] = await this.db.insert(devices).values(insertDevice).returning();
+    return device;
+  }
+
+  async updateDevice(id: string, updates: Partial<InsertDevice>): Promise<Device | undefined> {
+    if (Object.keys(updates).length === 0) return this.getDevice(id);
+    const [device] = await this.db.update(devices).set(updates).where(eq(devices.id, id)).returning();
+    return device;
+  }
+
+  async deleteDevice(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(devices).where(eq(devices.id, id)).returning({ id: devices.id });
+    return deleted.length > 0;
+  }
+
+  // Control Settings
+  async getControlSettings(userId: string): Promise<ControlSettings> {
+    const [settings] = await this.db.select().from(controlSettings).where(eq(controlSettings.userId, userId));
+    return settings ?? this.updateControlSettings(userId, {});
+  }
+
+  async updateControlSettings(userId: string, updates: Partial<InsertControlSettings>): Promise<ControlSettings> {
+    // Column defaults fill the row in on first use; a concurrent request that
+    // created it first just makes this a no-op
+    await this.db.insert(controlSettings).values({ userId }).onConflictDoNothing({ target: controlSettings.userId });
+    if (Object.keys(updates).length === 0) {
+      const [settings] = await this.db.select().from(controlSettings).where(eq(controlSettings.userId, userId));
+      return settings;
+    }
+
+    const [updated] = await this.db
+      .update(controlSettings)
+      .set(updates)
+      .where(eq(controlSettings.userId, userId))
+      .returning();
+    return updated;
+  }
+
+  // Network Settings
+  async getNetworkSettings(userId: string): Promise<NetworkSettings> {
+    const [settings] = await this.db.select().from(networkSettings).where(eq(networkSettings.userId, userId));
+    return settings ?? this.updateNetworkSettings(userId, {});
+  }
+
+  async updateNetworkSettings(userId: string, updates: Partial<InsertNetworkSettings>): Promise<NetworkSettings> {
+    await this.db.insert(networkSettings).values({ userId }).onConflictDoNothing({ target: networkSettings.userId });
+    if (Object.keys(updates).length === 0) {
+      const [settings] = await this.db.select().from(networkSettings).where(eq(networkSettings.userId, userId));
+      return settings;
+    }
+
+    const [updated] = await this.db
+      .update(networkSettings)
+      .set(updates)
+      .where(eq(networkSettings.userId, userId))
+      .returning();
+    return updated;
+  }
+
+  // Bluetooth Devices
+  async getAllBluetoothDevices(): Promise<BluetoothDevice[]> {
+    return this.db.select().from(bluetoothDevices);
+  }
+
+  async getBluetoothDevice(id: string): Promise<BluetoothDevice | undefined> {
+    const [device] = await this.db.select().from(bluetoothDevices).where(eq(bluetoothDevices.id, id));
+    return device;
+  }
+
+  async createBluetoothDevice(insertDevice: InsertBluetoothDevice): Promise<BluetoothDevice> {
+    const [device] = await this.db.insert(bluetoothDevices).values(insertDevice).returning();
+    return device;
+  }
+
+  async updateBluetoothDevice(id: string, updates: Partial<InsertBluetoothDevice>): Promise<BluetoothDevice | undefined> {
+    if (Object.keys(updates).length === 0) return this.getBluetoothDevice(id);
+    const [device] = await this.db
+      .update(bluetoothDevices)
+      .set(updates)
+      .where(eq(bluetoothDevices.id, id))
+      .returning();
+    return device;
+  }
+
+  // ROMs
+  async getAllRoms(userId: string): Promise<Rom[]> {
+    return this.db.select().from(roms).where(eq(roms.userId, userId)).orderBy(asc(roms.uploadedAt));
+  }
+
+  async getRom(id: string): Promise<Rom | undefined> {
+    const [rom] = await this.db.select().from(roms).where(eq(roms.id, id));
+    return rom;
+  }
+
+  async getRomByHash(userId: string, hash: string): Promise<Rom | undefined> {
+    const [rom] = await this.db
+      .select()
+      .from(roms)
+      .where(and(eq(roms.userId, userId), eq(roms.hash, hash)));
+    return rom;
+  }
+
+  async createRom(insertRom: InsertRom): Promise<Rom> {
+    const [rom] = await this.db.insert(roms).values(insertRom).returning();
+    return rom;
+  }
+
+  async updateRom(id: string, updates: Partial<InsertRom>): Promise<Rom | undefined> {
+    if (Object.keys(updates).length === 0) return this.getRom(id);
+    const [rom] = await this.db.update(roms).set(updates).where(eq(roms.id, id)).returning();
+    return rom;
+  }
+
+  async deleteRom(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(roms).where(eq(roms.id, id)).returning({ id: roms.id });
+    return deleted.length > 0;
   }
 
   // Game Session
-  async getActiveSession(): Promise<GameSession | null> {
-    return this.activeSession;
+  async getActiveSession(userId: string): Promise<GameSession | null> {
+    return this.activeSessions.get(userId) ?? null;
   }
 
-  async startSession(gameId: string, gameName: string): Promise<GameSession> {
-    const networkStats = await this.getNetworkStats();
-    this.activeSession = {
+  async startSession(userId: string, gameId: string, gameName: string, networkStats: NetworkStats): Promise<GameSession> {
+    const session: GameSession = {
       gameId,
       gameName,
       startTime: new Date(),
       isActive: true,
       networkStats,
     };
-    return this.activeSession;
+    this.activeSessions.set(userId, session);
+    return session;
+  }
+
+  async endSession(userId: string): Promise<void> {
+    this.activeSessions.delete(userId);
   }
+}
 
-  async endSession(): Promise<void> {
-    this.activeSession = null;
+function createStorage(): IStorage {
+  // Postgres when DATABASE_URL is set (run `npm run db:push` first), in-memory otherwise
+  if (process.env.DATABASE_URL) {
+    const { db, pool } = createDb(process.env.DATABASE_URL);
+    return new DbStorage(db, pool);
   }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = createStorage();